@@ -10,6 +10,13 @@ declare module '@meteorrn/minimongo' {
   }
 }
 
+declare module '@meteorrn/minimongo/src/selector' {
+  export function compileDocumentSelector(
+    selector: Record<string, any>
+  ): (doc: any) => boolean;
+  export function compileSort(sort: any): (a: any, b: any) => number;
+}
+
 declare module 'ejson' {
   const EJSON: {
     stringify: (v: any) => string;
@@ -1,5 +1,16 @@
 const UNMISTAKABLE_CHARS =
   '23456789ABCDEFGHJKLMNPQRSTWXYZabcdefghijkmnopqrstuvwxyz';
+const HEX_CHARS = '0123456789abcdef';
+
+/**
+ * A deterministic generator, created by {Random.createWithSeeds}
+ */
+export type SeededRandomGenerator = {
+  fraction(): number;
+  choice<T>(arrayOrString: T[] | string): T | string | undefined;
+  id(count?: number): string;
+  hexString(digits: number): string;
+};
 
 const generators: Record<number, () => string> = Object.create(null);
 let isSecureRandomEndabled: boolean | undefined;
@@ -13,24 +24,127 @@ const Random = {
    * @returns {string} the generated id string
    */
   id(count = 17): string {
-    if (!isSecureRandomEndabled) {
-      if (hasSecureRandom()) {
-        isSecureRandomEndabled = true;
-      } else {
-        throw new Error(
-          '@meteorrn/core: secure random generator is not available.\n' +
-            '- In React Native, install and configure `react-native-quick-crypto` (preferred) or add `react-native-get-random-values`.\n' +
-            '- In Node, ensure `globalThis.crypto` or the `crypto` module is available.'
-        );
-      }
-    }
+    ensureSecureRandom();
     if (!generators[count]) {
       generators[count] = makeGenerator(count);
     }
     return generators[count]!();
   },
+
+  /**
+   * Generates a random string of hexadecimal digits.
+   * @param digits {number} length of the string
+   * @returns {string} the generated hex string
+   */
+  hexString(digits: number): string {
+    ensureSecureRandom();
+    const bytes = new Uint8Array(Math.ceil(digits / 2));
+    getRandomValuesSafe(bytes);
+    let out = '';
+    for (let i = 0; i < bytes.length; i++) {
+      out += bytes[i]!.toString(16).padStart(2, '0');
+    }
+    return out.substring(0, digits);
+  },
+
+  /**
+   * Creates a deterministic generator from the given seeds, using the
+   * Alea algorithm, exactly as Meteor core does. The same seeds produce
+   * the same sequence of values on the client and the server.
+   * @param seeds {...*} one or more seeds
+   * @returns {SeededRandomGenerator}
+   */
+  createWithSeeds(...seeds: unknown[]): SeededRandomGenerator {
+    if (seeds.length === 0) {
+      throw new Error('No seeds were provided');
+    }
+    const fraction = alea(seeds);
+    const generator: SeededRandomGenerator = {
+      fraction,
+      choice(arrayOrString: any) {
+        const index = Math.floor(fraction() * arrayOrString.length);
+        if (typeof arrayOrString === 'string') {
+          return arrayOrString.substr(index, 1);
+        }
+        return arrayOrString[index];
+      },
+      id(count = 17) {
+        let out = '';
+        for (let i = 0; i < count; i++) {
+          out += generator.choice(UNMISTAKABLE_CHARS);
+        }
+        return out;
+      },
+      hexString(digits: number) {
+        let out = '';
+        for (let i = 0; i < digits; i++) {
+          out += generator.choice(HEX_CHARS);
+        }
+        return out;
+      },
+    };
+    return generator;
+  },
 };
 
+/**
+ * Alea PRNG by Johannes Baagøe, as used by Meteor core
+ * @see http://baagoe.org/en/wiki/Better_random_numbers_for_javascript
+ * @private
+ */
+function alea(seeds: unknown[]): () => number {
+  let n = 0xefc8249d;
+  const mash = (value: unknown) => {
+    const data = String(value);
+    for (let i = 0; i < data.length; i++) {
+      n += data.charCodeAt(i);
+      let h = 0.02519603282416938 * n;
+      n = h >>> 0;
+      h -= n;
+      h *= n;
+      n = h >>> 0;
+      h -= n;
+      n += h * 0x100000000; // 2^32
+    }
+    return (n >>> 0) * 2.3283064365386963e-10; // 2^-32
+  };
+
+  let s0 = mash(' ');
+  let s1 = mash(' ');
+  let s2 = mash(' ');
+  let c = 1;
+
+  seeds.forEach((seed) => {
+    s0 -= mash(seed);
+    if (s0 < 0) s0 += 1;
+    s1 -= mash(seed);
+    if (s1 < 0) s1 += 1;
+    s2 -= mash(seed);
+    if (s2 < 0) s2 += 1;
+  });
+
+  return () => {
+    const t = 2091639 * s0 + c * 2.3283064365386963e-10; // 2^-32
+    s0 = s1;
+    s1 = s2;
+    return (s2 = t - (c = t | 0));
+  };
+}
+
+function ensureSecureRandom() {
+  if (!isSecureRandomEndabled) {
+    if (hasSecureRandom()) {
+      isSecureRandomEndabled = true;
+    } else {
+      throw new Error(
+        '@meteorrn/core: secure random generator is not available.\n' +
+          '- In React Native, install and configure `react-native-quick-crypto` (preferred) or add `react-native-get-random-values`.\n' +
+          '- In Node, ensure `globalThis.crypto` or the `crypto` module is available.'
+      );
+    }
+  }
+}
+
 function hasSecureRandom(): boolean {
   // Web Crypto
   if (
@@ -0,0 +1,42 @@
+import Random, { type SeededRandomGenerator } from './Random';
+
+type Seed = string | (() => string);
+
+/**
+ * A stream of deterministic random sequences, derived from a method's
+ * `randomSeed`. Each named sequence is seeded with the seed and its name,
+ * so a method stub and the server generate the same values, for example
+ * the same `_id` for documents, inserted into `/collection/<name>`.
+ * Mirrors `DDPCommon.RandomStream` from Meteor core.
+ * @class
+ */
+export default class RandomStream {
+  seed: Seed[];
+  private sequences: Record<string, SeededRandomGenerator>;
+
+  /**
+   * @constructor
+   * @param seed {string|function|array=} the seed or a function that lazily
+   *   returns it, defaults to a random hex string
+   */
+  constructor(seed?: Seed | Seed[]) {
+    this.seed = ([] as Seed[]).concat(seed ?? Random.hexString(20));
+    this.sequences = Object.create(null);
+  }
+
+  /**
+   * Returns the generator for the sequence of the given name
+   * @param name {string} name of the sequence, e.g. `/collection/tasks`
+   * @returns {SeededRandomGenerator}
+   */
+  sequence(name: string): SeededRandomGenerator {
+    let sequence = this.sequences[name];
+    if (!sequence) {
+      const seeds = this.seed
+        .concat(name)
+        .map((seed) => (typeof seed === 'function' ? seed() : seed));
+      sequence = this.sequences[name] = Random.createWithSeeds(...seeds);
+    }
+    return sequence;
+  }
+}
@@ -1,14 +1,16 @@
 import EventEmitter from 'eventemitter3';
 import Queue from './queue';
 import Socket from './socket';
+import ReconnectScheduler, { type BackoffOptions } from './scheduler';
+import Heartbeat from './heartbeat';
 import { uniqueId } from './utils';
+import type { TransportConstructor } from './transport';
 
 /**
- * This is the latest version, of the protocol we use
- * @type {string}
- * @private
+ * The versions of the protocol we support, the preferred one first
+ * @type {string[]}
  */
-const DDP_VERSION = '1';
+export const SUPPORTED_DDP_VERSIONS = ['1', 'pre2', 'pre1'];
 
 /**
  * Contains all public events that externals can listen to.
@@ -35,7 +37,36 @@ const PUBLIC_EVENTS: (keyof DDPEventMap)[] = [
 type DDPStatus = 'connected' | 'disconnected';
 type LoggerPayload = object | string;
 
+/**
+ * The connection states, as reported by `Meteor.status()`
+ */
+export type ConnectionState =
+  | 'connecting'
+  | 'connected'
+  | 'failed'
+  | 'waiting'
+  | 'offline';
+
+/**
+ * Detailed connection status, mirrors the result of `Meteor.status()`
+ */
+export interface ConnectionStatus {
+  status: ConnectionState;
+  connected: boolean;
+  /** number of reconnection attempts since the last successful connection */
+  retryCount: number;
+  /** timestamp (ms) of the next reconnection attempt, while `waiting` */
+  retryTime?: number;
+  /** why the connection has been closed or failed */
+  reason?: string;
+  /** the close code of the socket */
+  code?: number;
+  /** round-trip time (ms) of the last heartbeat, while connected */
+  rtt?: number;
+}
+
 type DDPConnectedMessage = { msg: 'connected'; session: string };
+type DDPFailedMessage = { msg: 'failed'; version?: string };
 type DDPPingMessage = { msg: 'ping'; id?: string };
 type DDPReadyMessage = { msg: 'ready'; subs: string[] };
 type DDPNoSubMessage = { msg: 'nosub'; id: string; error?: any };
@@ -63,6 +94,7 @@ type DDPUpdatedMessage = { msg: 'updated'; methods: string[] };
 type DDPErrorMessage = { msg: 'error'; [k: string]: any };
 type DDPInbound =
   | DDPConnectedMessage
+  | DDPFailedMessage
   | DDPPingMessage
   | DDPReadyMessage
   | DDPNoSubMessage
@@ -74,12 +106,27 @@ type DDPInbound =
   | DDPErrorMessage
   | { msg: string; [k: string]: any };
 
+/**
+ * Per-method options that affect how a method is queued and replayed
+ */
+export interface MethodOptions {
+  /** hold back later methods until this one has returned */
+  wait?: boolean;
+  /** do not replay this method after a reconnect, fail it instead */
+  noRetry?: boolean;
+  /** seed for ids, that are generated by the method, see {RandomStream} */
+  randomSeed?: string;
+}
+
 interface DDPOptions {
   endpoint: string;
-  SocketConstructor: new (endpoint: string) => any;
+  SocketConstructor: TransportConstructor;
   autoConnect?: boolean;
   autoReconnect?: boolean;
   reconnectInterval?: number;
+  backoff?: BackoffOptions;
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
   logger?: (msg: LoggerPayload) => void;
   isPrivate?: boolean;
   isVerbose?: boolean;
@@ -93,6 +140,20 @@ interface DDPOptions {
  */
 const DEFAULT_RECONNECT_INTERVAL = 1500;
 
+/**
+ * The default timeout in ms to wait for a heartbeat's pong
+ * @type {number}
+ * @private
+ */
+const DEFAULT_HEARTBEAT_TIMEOUT = 15000;
+
+/**
+ * Returns true for the message of a `login` method
+ * @private
+ */
+const isLoginMethod = (message: any) =>
+  message.msg === 'method' && message.method === 'login';
+
 /**
  * Internal interface for event handling.
  * By default, it adds listeners to all public events
@@ -166,12 +227,6 @@ class EventInterface {
   }
 }
 
-/**
- * @private
- * @type {EventInterface}
- */
-const eventInterface = new EventInterface();
-
 /**
  * Represents a DDP client that interfaces with the Meteor server backend
  * @class
@@ -187,11 +242,13 @@ type DDPEventMap = {
   result: DDPResultMessage;
   updated: DDPUpdatedMessage;
   error: any;
+  status: ConnectionStatus;
 };
 
 class DDP extends EventEmitter<DDPEventMap> {
   eventInterface: EventInterface;
   status: DDPStatus;
+  connectionStatus: ConnectionStatus;
   logger: (msg: LoggerPayload) => void;
   isPrivate: boolean;
   isVerbose: boolean;
@@ -205,7 +262,19 @@ class DDP extends EventEmitter<DDPEventMap> {
   shouldReplayActionsOnLogin: boolean;
   private activeSubs: Map<string, { name: string; params: any }>;
   private pendingMethods: Map<string, any>;
+  private methodOptions: Map<string, MethodOptions>;
+  private blockingMethodId: string | null;
+  /** messages of the previous session, that wait for the login to be sent again */
+  private deferredReplay: any[];
   private _lastSessionId?: string;
+  /** the version proposed in the `connect` message */
+  private version: string;
+  /** true, while the socket is closed to reconnect with another version */
+  private renegotiating: boolean;
+  /** the version the server accepted, null until the first `connected` */
+  negotiatedVersion: string | null;
+  reconnectScheduler: ReconnectScheduler;
+  heartbeat: Heartbeat | null;
   /**
    * Create a new DDP instance and runs the following init procedure:
    *
@@ -218,6 +287,13 @@ class DDP extends EventEmitter<DDPEventMap> {
    * @constructor
    * @param options {object} constructor options
    * @param options.autoConnect {boolean=} set to true to auto connect
+   * @param options.reconnectInterval {number=} delay of the first reconnection attempt in ms
+   * @param options.backoff {object=} backoff policy of reconnection attempts,
+   *   with `base`, `max`, `multiplier` and `jitter`, see {ReconnectScheduler}
+   * @param options.heartbeatInterval {number=} send a `ping` after this many ms without
+   *   incoming messages, disabled by default
+   * @param options.heartbeatTimeout {number=} close the socket, if no message arrives
+   *   within this many ms after the `ping`, defaults to 15000
    * @see {Queue} the internal Queue implementation that is used
    * @see {Socket} the internal Socket implementation that is used
    *
@@ -225,15 +301,27 @@ class DDP extends EventEmitter<DDPEventMap> {
   constructor(options: DDPOptions) {
     super();
 
-    this.eventInterface = eventInterface.activate(this);
+    // each connection has its own listeners
+    this.eventInterface = new EventInterface().activate(this);
     this.status = 'disconnected';
+    this.connectionStatus = {
+      status: 'offline',
+      connected: false,
+      retryCount: 0,
+    };
     this.logger = options.logger ?? ((msg: LoggerPayload) => console.info(msg));
     this.isPrivate = options.isPrivate ?? true;
     this.isVerbose = options.isVerbose ?? false;
     this.activeSubs = new Map();
     this.pendingMethods = new Map();
+    this.methodOptions = new Map();
+    this.blockingMethodId = null;
+    this.deferredReplay = [];
     this.endpoint = options.endpoint;
     this.deferReplayUntilLogin = options.deferReplayUntilLogin ?? false;
+    this.version = SUPPORTED_DDP_VERSIONS[0] as string;
+    this.renegotiating = false;
+    this.negotiatedVersion = null;
     this.shouldReplayActionsOnLogin = false;
 
     // Default `autoConnect` and `autoReconnect` to true
@@ -241,16 +329,24 @@ class DDP extends EventEmitter<DDPEventMap> {
     this.autoReconnect = options.autoReconnect !== false;
     this.reconnectInterval =
       options.reconnectInterval || DEFAULT_RECONNECT_INTERVAL;
+    this.reconnectScheduler = new ReconnectScheduler({
+      base: this.reconnectInterval,
+      ...options.backoff,
+    });
 
     this.messageQueue = new Queue(
-      (message) => {
-        if (this.status === 'connected') {
-          this.trackSentMessage(message);
-          this.socket.send(message);
-          return true;
-        } else {
-          return false;
+      (message, skipped) => {
+        if (this.status !== 'connected') return false;
+        if (
+          message.msg === 'method' &&
+          (skipped.length > 0 || !this.canSendMethod(message))
+        ) {
+          // methods keep their order, subs and unsubs pass the held back ones
+          return 'skip';
         }
+        this.trackSentMessage(message);
+        this.socket.send(message);
+        return true;
       },
       {
         logger: this.logger,
@@ -260,6 +356,23 @@ class DDP extends EventEmitter<DDPEventMap> {
 
     this.socket = new Socket(options.SocketConstructor, options.endpoint);
 
+    this.heartbeat = options.heartbeatInterval
+      ? new Heartbeat({
+          interval: options.heartbeatInterval,
+          timeout: options.heartbeatTimeout || DEFAULT_HEARTBEAT_TIMEOUT,
+          sendPing: (id) => this.socket.send({ msg: 'ping', id }),
+          onTimeout: () => {
+            this.isVerbose &&
+              this.logger({
+                event: 'ddp_heartbeat_timeout',
+                endpoint: this.endpoint,
+              });
+            // leads to the 'close' event, which reconnects
+            this.socket.forceClose('heartbeat timeout');
+          },
+        })
+      : null;
+
     if (this.isVerbose) {
       this.socket.on('message:out', (outMessage) => {
         try {
@@ -286,8 +399,8 @@ class DDP extends EventEmitter<DDPEventMap> {
       // to establish the DDP connection
       const connectMessage: any = {
         msg: 'connect',
-        version: DDP_VERSION,
-        support: [DDP_VERSION],
+        version: this.version,
+        support: SUPPORTED_DDP_VERSIONS,
       };
       if (this._lastSessionId) {
         connectMessage.session = this._lastSessionId;
@@ -296,6 +409,12 @@ class DDP extends EventEmitter<DDPEventMap> {
     });
 
     this.socket.on('close', (closeEvent: any) => {
+      if (this.renegotiating) {
+        // not a lost connection, but a retry with the version the server suggested
+        this.renegotiating = false;
+        this.connect();
+        return;
+      }
       this.isVerbose &&
         this.logger({
           event: 'ddp_close',
@@ -305,25 +424,38 @@ class DDP extends EventEmitter<DDPEventMap> {
           wasClean: closeEvent?.wasClean,
         });
       this.status = 'disconnected';
+      this.blockingMethodId = null;
+      this.heartbeat?.stop();
+      this.restoreDeferredReplay();
+      this.failUnretryableMethods();
+      const closeDetails: Pick<ConnectionStatus, 'reason' | 'code'> = {};
+      if (closeEvent?.reason) closeDetails.reason = String(closeEvent.reason);
+      if (typeof closeEvent?.code === 'number')
+        closeDetails.code = closeEvent.code;
       this.emit('disconnected');
       if (this.autoReconnect) {
-        // Schedule a reconnection
-        this.isVerbose &&
-          this.logger({
-            event: 'ddp_reconnect_scheduled',
-            endpoint: this.endpoint,
-            delayMs: this.reconnectInterval,
-          });
-        setTimeout(this.socket.open.bind(this.socket), this.reconnectInterval);
+        this.waitForReconnect(
+          this.reconnectScheduler.delay(this.connectionStatus.retryCount),
+          closeDetails
+        );
+      } else {
+        this.setConnectionStatus({
+          status: 'offline',
+          connected: false,
+          retryCount: 0,
+          ...closeDetails,
+        });
       }
     });
 
     this.socket.on('message:in', (message: DDPInbound) => {
+      this.heartbeat?.messageReceived();
       if (message.msg === 'connected') {
         // mirror docs/index.js: log the connect message
         this.isVerbose && this.logger(message);
         const previousSessionId = this._lastSessionId;
         this.status = 'connected';
+        this.negotiatedVersion = this.version;
         this._lastSessionId = message.session;
         const sessionReused =
           !!previousSessionId && previousSessionId === message.session;
@@ -341,17 +473,48 @@ class DDP extends EventEmitter<DDPEventMap> {
         // Only defer replay when configured to wait for login on a new session.
         // Otherwise, replay immediately so queued messages are sent.
         this.shouldReplayActionsOnLogin = waitForLoginReplay;
-        if (!this.shouldReplayActionsOnLogin) {
-          this.requeueActiveMessages();
-          this.messageQueue.process();
+        const replay = this.collectActiveMessages();
+        if (this.shouldReplayActionsOnLogin) {
+          // a login of the previous session is sent again right away,
+          // the other messages follow, once it returned
+          this.messageQueue.prepend(replay.filter(isLoginMethod));
+          this.deferredReplay = replay.filter((m) => !isLoginMethod(m));
+        } else {
+          this.messageQueue.prepend(replay);
         }
+        this.messageQueue.process();
 
+        this.setConnectionStatus({
+          status: 'connected',
+          connected: true,
+          retryCount: 0,
+        });
+        // pre1 has no ping and pong messages
+        if (this.negotiatedVersion !== 'pre1') this.heartbeat?.start();
         this.emit('connected', { sessionReused });
+        if (waitForLoginReplay) {
+          // runs after the listeners of `connected`, which may log in;
+          // without a login, e.g. when logged out, the replay must not wait
+          Promise.resolve().then(() => {
+            if (this.shouldReplayActionsOnLogin && !this.isLoginPending()) {
+              this.releaseDeferredReplay();
+            }
+          });
+        }
+      } else if (message.msg === 'failed') {
+        this.isVerbose && this.logger(message);
+        this.versionRejected(message as DDPFailedMessage);
       } else if (message.msg === 'ping') {
         this.isVerbose && this.logger(message);
         // Reply with a `pong` message to prevent the server from
         // closing the connection
         this.socket.send({ msg: 'pong', id: (message as any).id });
+      } else if (message.msg === 'pong') {
+        this.isVerbose && this.logger(message);
+        const rtt = this.heartbeat?.pongReceived((message as any).id);
+        if (rtt !== undefined && this.status === 'connected') {
+          this.setConnectionStatus({ ...this.connectionStatus, rtt });
+        }
       } else if (PUBLIC_EVENTS.includes(message.msg as any)) {
         if (this.isVerbose) {
           if (
@@ -367,17 +530,6 @@ class DDP extends EventEmitter<DDPEventMap> {
             } else {
               this.logger(message);
             }
-            const pendingMethod = this.pendingMethods.get(message.id);
-            const isLoginResult = pendingMethod?.method === 'login';
-            // should be deleted before requeueActiveMessages to avoid re-sending it
-            this.pendingMethods.delete(message.id);
-
-            if (isLoginResult && this.shouldReplayActionsOnLogin) {
-              // resume login finished (success or error) – unblock replay
-              this.shouldReplayActionsOnLogin = false;
-              this.requeueActiveMessages();
-              this.messageQueue.process();
-            }
           } else if (
             message.msg === 'added' ||
             message.msg === 'changed' ||
@@ -397,6 +549,10 @@ class DDP extends EventEmitter<DDPEventMap> {
           }
         }
 
+        if (message.msg === 'result') {
+          this.completeMethod(message.id);
+        }
+
         this.emit(message.msg as any, message as any);
       } else {
         const error = new Error(`Unexpected message received`);
@@ -441,7 +597,25 @@ class DDP extends EventEmitter<DDPEventMap> {
         event: 'ddp_connect',
         endpoint: this.endpoint,
       });
-    this.socket.open();
+    this.reconnectScheduler.cancel();
+    if (this.status !== 'connected') {
+      this.setConnectionStatus({
+        status: 'connecting',
+        connected: false,
+        retryCount: this.connectionStatus.retryCount,
+      });
+    }
+    try {
+      this.socket.open();
+    } catch (e) {
+      this.setConnectionStatus({
+        status: 'failed',
+        connected: false,
+        retryCount: this.connectionStatus.retryCount,
+        reason: e instanceof Error ? e.message : String(e),
+      });
+      throw e;
+    }
   }
 
   /**
@@ -452,29 +626,175 @@ class DDP extends EventEmitter<DDPEventMap> {
    */
   disconnect() {
     this.autoReconnect = false;
+    this.reconnectScheduler.cancel();
+    this.heartbeat?.stop();
+    this.setConnectionStatus({
+      status: 'offline',
+      connected: false,
+      retryCount: 0,
+    });
     this.socket.close();
   }
 
+  /**
+   * Handles the `failed` message: reconnects with the version the server
+   * suggested, if we support it, otherwise fails permanently
+   * @private
+   */
+  private versionRejected(message: DDPFailedMessage) {
+    const suggested = message.version;
+    if (
+      suggested &&
+      suggested !== this.version &&
+      SUPPORTED_DDP_VERSIONS.includes(suggested)
+    ) {
+      this.version = suggested;
+      this.renegotiating = true;
+      this.socket.forceClose(`DDP version ${suggested} requested`);
+      return;
+    }
+
+    const reason = `DDP version negotiation failed; server requested version ${suggested}`;
+    this.autoReconnect = false;
+    this.reconnectScheduler.cancel();
+    this.socket.forceClose(reason);
+    this.setConnectionStatus({
+      status: 'failed',
+      connected: false,
+      retryCount: this.connectionStatus.retryCount,
+      reason,
+    });
+    this.emit('error', { error: new Error(reason), message });
+  }
+
+  /**
+   * Replaces the connection status and emits it as `status` event
+   * @private
+   */
+  private setConnectionStatus(status: ConnectionStatus) {
+    this.connectionStatus = status;
+    this.emit('status', status);
+  }
+
+  /**
+   * Schedules a reconnection attempt, replacing a pending one.
+   * Does nothing while connected or connecting.
+   * @param delay {number=} ms until the attempt, defaults to the backoff
+   *   delay of the current attempt
+   */
+  scheduleReconnect(
+    delay: number = this.reconnectScheduler.delay(
+      this.connectionStatus.retryCount
+    )
+  ) {
+    const { status, reason, code } = this.connectionStatus;
+    if (this.status === 'connected' || status === 'connecting') return;
+    const closeDetails: Pick<ConnectionStatus, 'reason' | 'code'> = {};
+    if (reason !== undefined) closeDetails.reason = reason;
+    if (code !== undefined) closeDetails.code = code;
+    this.waitForReconnect(delay, closeDetails);
+  }
+
+  /**
+   * Schedules the reconnection and reports the `waiting` status
+   * @private
+   */
+  private waitForReconnect(
+    delay: number,
+    closeDetails: Pick<ConnectionStatus, 'reason' | 'code'>
+  ) {
+    this.isVerbose &&
+      this.logger({
+        event: 'ddp_reconnect_scheduled',
+        endpoint: this.endpoint,
+        delayMs: delay,
+      });
+    const { status, retryCount } = this.connectionStatus;
+    this.reconnectScheduler.schedule(() => {
+      try {
+        this.connect();
+      } catch (e) {
+        // the status has been set to failed
+      }
+    }, delay);
+    this.setConnectionStatus({
+      status: 'waiting',
+      connected: false,
+      // rescheduling a pending attempt does not count as a new one
+      retryCount: status === 'waiting' ? retryCount : retryCount + 1,
+      retryTime: Date.now() + delay,
+      ...closeDetails,
+    });
+  }
+
   /**
    * Pushes a method to the message queue.
    * This is what happens under the hood when using {Meteor.call}
    *
    * @param name {string} the name of the Meteor Method that is to be called
    * @param params {any} the params to pass, likely an object
+   * @param options {object=} optional method options
+   * @param options.wait {boolean=} hold back later methods until this one has returned
+   * @param options.noRetry {boolean=} fail instead of replaying this method after a reconnect
+   * @param options.randomSeed {string=} seed for ids, that are generated by the method
    * @returns {string} a unique message id, beginning from 1, counting up for each message
    */
-  method(name: string, params: any) {
+  method(name: string, params: any, options: MethodOptions = {}) {
     const id = uniqueId();
-    const message = {
+    if (options.wait || options.noRetry) {
+      this.methodOptions.set(id, options);
+    }
+    const message: Record<string, any> = {
       msg: 'method',
       id: id,
       method: name,
       params: params,
     };
+    if (options.randomSeed !== undefined) {
+      message.randomSeed = options.randomSeed;
+    }
     this.messageQueue.push(message);
     return id;
   }
 
+  /**
+   * Cancels a method: drops it from the message queue, if it has not been
+   * sent yet, and stops tracking it, so it won't be replayed.
+   * A result, that arrives later for this method, is still emitted.
+   * @param id {string} the id, returned by {DDP.method}
+   * @returns {boolean} true, if the method has not been sent yet
+   */
+  cancelMethod(id: string): boolean {
+    const removed = this.messageQueue.remove(
+      (message) => message.msg === 'method' && message.id === id
+    );
+    this.pendingMethods.delete(id);
+    this.methodOptions.delete(id);
+    this.deferredReplay = this.deferredReplay.filter(
+      (message) => message.msg !== 'method' || message.id !== id
+    );
+    if (this.blockingMethodId === id) {
+      this.blockingMethodId = null;
+      this.messageQueue.process();
+    }
+    return removed > 0;
+  }
+
+  /**
+   * Drops all methods, queued or sent, so they are neither sent nor replayed
+   * after a reconnect, e.g. because their calls have been failed already.
+   * Results, that arrive later for them, are still emitted.
+   */
+  clearPendingMethods() {
+    this.messageQueue.remove((message) => message.msg === 'method');
+    this.pendingMethods.clear();
+    this.methodOptions.clear();
+    this.deferredReplay = this.deferredReplay.filter(
+      (message) => message.msg !== 'method'
+    );
+    this.blockingMethodId = null;
+  }
+
   /**
    * Subscribes to a Meteor Publication by adding a sub message to the
    * message queue.
@@ -513,9 +833,48 @@ class DDP extends EventEmitter<DDPEventMap> {
     return id;
   }
 
+  /**
+   * Determines whether a queued method may be sent now, with respect
+   * to methods that were called with the `wait` option.
+   * @private
+   */
+  private canSendMethod(message: any) {
+    if (this.blockingMethodId) return false;
+    if (this.methodOptions.get(message.id)?.wait) {
+      // a wait method runs only after all previously sent methods returned
+      return this.pendingMethods.size === 0;
+    }
+    return true;
+  }
+
+  /**
+   * Removes the bookkeeping of a method, once its result arrived,
+   * and releases any methods that have been held back.
+   * @private
+   */
+  private completeMethod(id: string) {
+    const pendingMethod = this.pendingMethods.get(id);
+    const isLoginResult = pendingMethod?.method === 'login';
+    // should be deleted first, so it is neither replayed nor a pending login
+    this.pendingMethods.delete(id);
+    this.methodOptions.delete(id);
+    if (this.blockingMethodId === id) {
+      this.blockingMethodId = null;
+    }
+
+    if (isLoginResult && this.shouldReplayActionsOnLogin) {
+      // resume login finished (success or error) – unblock replay
+      this.releaseDeferredReplay();
+    }
+    this.messageQueue.process();
+  }
+
   private trackSentMessage(message: any) {
     if (message.msg === 'method') {
       this.pendingMethods.set(message.id, message);
+      if (this.methodOptions.get(message.id)?.wait) {
+        this.blockingMethodId = message.id;
+      }
     } else if (message.msg === 'sub') {
       this.activeSubs.set(message.id, {
         name: message.name,
@@ -526,15 +885,82 @@ class DDP extends EventEmitter<DDPEventMap> {
     }
   }
 
-  private requeueActiveMessages(skipLoginMethods = false) {
+  /**
+   * Fails the sent methods with the `noRetry` option, once the connection
+   * is lost, by emitting an `invocation-failed` result for each of them.
+   * The server may or may not have run them, so they are not replayed.
+   * @private
+   */
+  private failUnretryableMethods() {
+    this.pendingMethods.forEach((message, id) => {
+      if (!this.methodOptions.get(id)?.noRetry) return;
+      this.pendingMethods.delete(id);
+      this.methodOptions.delete(id);
+      this.emit('result', {
+        msg: 'result',
+        id,
+        error: {
+          error: 'invocation-failed',
+          reason:
+            'Method invocation might have failed due to dropped connection. Failing because `noRetry` option was passed to Meteor.apply.',
+        },
+      });
+    });
+  }
+
+  /**
+   * Returns true, while a login is queued or waits for its result
+   * @private
+   */
+  private isLoginPending() {
+    return (
+      [...this.pendingMethods.values()].some(isLoginMethod) ||
+      this.messageQueue.some(isLoginMethod)
+    );
+  }
+
+  /**
+   * Sends the messages of the previous session, that waited for the login.
+   * Subs, that have been stopped in the meantime, are left out.
+   * @private
+   */
+  private releaseDeferredReplay() {
+    const replay = this.deferredReplay.filter(
+      (message) => message.msg !== 'sub' || this.activeSubs.has(message.id)
+    );
+    this.shouldReplayActionsOnLogin = false;
+    this.deferredReplay = [];
+    this.messageQueue.prepend(replay);
+  }
+
+  /**
+   * Tracks the methods, that still wait for the login, as sent again,
+   * once the connection is lost, so they are failed or replayed as usual.
+   * @private
+   */
+  private restoreDeferredReplay() {
+    this.deferredReplay.forEach((message) => {
+      if (message.msg === 'method')
+        this.pendingMethods.set(message.id, message);
+    });
+    this.shouldReplayActionsOnLogin = false;
+    this.deferredReplay = [];
+  }
+
+  /**
+   * Collects the messages, that are sent again on a new connection:
+   * the sent methods, logins first, followed by the active subs,
+   * which are not queued anyway.
+   * @private
+   */
+  private collectActiveMessages() {
     const loginReplay: any[] = [];
     const otherMethodReplay: any[] = [];
     const subReplay: any[] = [];
 
-    this.pendingMethods.forEach((message) => {
-      if (skipLoginMethods && message.method === 'login') {
-        return;
-      }
+    this.pendingMethods.forEach((message, id) => {
+      // replayed methods are tracked again, once they are sent
+      this.pendingMethods.delete(id);
       if (message.method === 'login') {
         loginReplay.push(message);
       } else {
@@ -543,6 +969,7 @@ class DDP extends EventEmitter<DDPEventMap> {
     });
 
     this.activeSubs.forEach((sub, id) => {
+      if (this.messageQueue.some((m) => m.msg === 'sub' && m.id === id)) return;
       subReplay.push({
         msg: 'sub',
         id,
@@ -551,11 +978,7 @@ class DDP extends EventEmitter<DDPEventMap> {
       });
     });
 
-    const replay = [...loginReplay, ...otherMethodReplay, ...subReplay];
-
-    if (replay.length) {
-      this.messageQueue.prepend(replay);
-    }
+    return [...loginReplay, ...otherMethodReplay, ...subReplay];
   }
 }
 
@@ -0,0 +1,96 @@
+/**
+ * Options of the {Heartbeat}
+ */
+export interface HeartbeatOptions {
+  /** ms without incoming messages, after which a ping is sent */
+  interval: number;
+  /** ms to wait for any message after the ping, before the connection is considered dead */
+  timeout: number;
+  /** sends a ping with the given id */
+  sendPing: (id: string) => void;
+  /** invoked, when the connection is considered dead */
+  onTimeout: () => void;
+}
+
+/**
+ * Detects dead connections by sending a ping, whenever nothing has been
+ * received for a while. Any incoming message proves the connection alive.
+ * Mirrors `DDPCommon.Heartbeat` from Meteor core, but is started by the client.
+ * @class
+ */
+export default class Heartbeat {
+  private options: HeartbeatOptions;
+  private intervalTimer: ReturnType<typeof setTimeout> | null;
+  private timeoutTimer: ReturnType<typeof setTimeout> | null;
+  private pingId: string | null;
+  private pingSentAt: number;
+  private pingCount: number;
+
+  /**
+   * @constructor
+   * @param options {HeartbeatOptions}
+   */
+  constructor(options: HeartbeatOptions) {
+    this.options = options;
+    this.intervalTimer = null;
+    this.timeoutTimer = null;
+    this.pingId = null;
+    this.pingSentAt = 0;
+    this.pingCount = 0;
+  }
+
+  /**
+   * Starts to watch the connection
+   */
+  start() {
+    this.stop();
+    this.schedulePing();
+  }
+
+  /**
+   * Stops all timers
+   */
+  stop() {
+    if (this.intervalTimer) clearTimeout(this.intervalTimer);
+    if (this.timeoutTimer) clearTimeout(this.timeoutTimer);
+    this.intervalTimer = null;
+    this.timeoutTimer = null;
+    this.pingId = null;
+  }
+
+  /**
+   * Resets the interval, as the connection is alive
+   */
+  messageReceived() {
+    if (!this.intervalTimer && !this.timeoutTimer) return;
+    if (this.timeoutTimer) clearTimeout(this.timeoutTimer);
+    this.timeoutTimer = null;
+    this.schedulePing();
+  }
+
+  /**
+   * Measures the round-trip time, if the pong answers the last ping
+   * @param id {string=} the id of the pong
+   * @returns {number|undefined} the round-trip time in ms
+   */
+  pongReceived(id?: string): number | undefined {
+    if (!id || id !== this.pingId) return undefined;
+    this.pingId = null;
+    return Date.now() - this.pingSentAt;
+  }
+
+  /** @private */
+  private schedulePing() {
+    if (this.intervalTimer) clearTimeout(this.intervalTimer);
+    this.intervalTimer = setTimeout(() => {
+      this.intervalTimer = null;
+      this.pingId = `heartbeat-${++this.pingCount}`;
+      this.pingSentAt = Date.now();
+      this.timeoutTimer = setTimeout(() => {
+        this.stop();
+        this.options.onTimeout();
+      }, this.options.timeout);
+      this.options.sendPing(this.pingId);
+    }, this.options.interval);
+  }
+}
@@ -0,0 +1,171 @@
+import EJSON from 'ejson';
+import { compileDocumentSelector } from '@meteorrn/minimongo/src/selector';
+import { hasOwn, isPlainObject } from './utils';
+
+type Document = Record<string, any>;
+
+/**
+ * Applies a single operator to the document, e.g. `$set`
+ * @private
+ */
+type Operator = (doc: Document, path: string, arg: any) => void;
+
+/**
+ * Returns the object, that holds the last key of the dotted path,
+ * optionally creating the missing objects along the way
+ * @private
+ */
+function resolvePath(doc: Document, path: string, create: boolean) {
+  const keys = path.split('.');
+  const key = keys.pop() as string;
+  let target: any = doc;
+  for (const part of keys) {
+    if (target[part] === undefined || target[part] === null) {
+      if (!create) return { target: undefined, key };
+      target[part] = {};
+    }
+    target = target[part];
+    if (typeof target !== 'object') {
+      throw new Error(`Cannot apply the modifier to a non-object at '${path}'`);
+    }
+  }
+  return { target, key };
+}
+
+/**
+ * @private
+ */
+const operators: Record<string, Operator> = {
+  $set(doc, path, arg) {
+    const { target, key } = resolvePath(doc, path, true);
+    target[key] = EJSON.clone(arg);
+  },
+  $unset(doc, path) {
+    const { target, key } = resolvePath(doc, path, false);
+    if (!target) return;
+    if (Array.isArray(target)) target[key as any] = null;
+    else delete target[key];
+  },
+  $inc(doc, path, arg) {
+    if (typeof arg !== 'number') {
+      throw new Error(`Modifier $inc expects a number at '${path}'`);
+    }
+    const { target, key } = resolvePath(doc, path, true);
+    if (target[key] === undefined) target[key] = arg;
+    else if (typeof target[key] === 'number') target[key] += arg;
+    else throw new Error(`Cannot apply $inc to a non-number at '${path}'`);
+  },
+  $push(doc, path, arg) {
+    const array = resolveArray(doc, path, '$push');
+    array.push(...eachValue(arg));
+  },
+  $addToSet(doc, path, arg) {
+    const array = resolveArray(doc, path, '$addToSet');
+    eachValue(arg).forEach((value) => {
+      if (!array.some((item) => EJSON.equals(item, value))) array.push(value);
+    });
+  },
+  $pull(doc, path, arg) {
+    const { target, key } = resolvePath(doc, path, false);
+    if (!target || target[key] === undefined) return;
+    if (!Array.isArray(target[key])) {
+      throw new Error(`Cannot apply $pull to a non-array at '${path}'`);
+    }
+    const matches = pullMatcher(arg);
+    target[key] = target[key].filter((item: any) => !matches(item));
+  },
+};
+
+/**
+ * Returns the array at the path, which is created, if missing
+ * @private
+ */
+function resolveArray(doc: Document, path: string, name: string): any[] {
+  const { target, key } = resolvePath(doc, path, true);
+  if (target[key] === undefined) target[key] = [];
+  if (!Array.isArray(target[key])) {
+    throw new Error(`Cannot apply ${name} to a non-array at '${path}'`);
+  }
+  return target[key];
+}
+
+/**
+ * Returns the values of `{ $each: [...] }`, or the single value
+ * @private
+ */
+function eachValue(arg: any): any[] {
+  const values = isPlainObject(arg) && hasOwn(arg, '$each') ? arg.$each : [arg];
+  if (!Array.isArray(values)) throw new Error('$each expects an array');
+  return values.map((value: any) => EJSON.clone(value));
+}
+
+/**
+ * Returns a function, that is true for the array items to remove by `$pull`:
+ * operator conditions, e.g. `{ $gte: 6 }`, are evaluated against the item,
+ * other objects are a query on the fields of the item
+ * @private
+ */
+function pullMatcher(value: any): (item: any) => boolean {
+  if (!isPlainObject(value)) return (item) => EJSON.equals(item, value);
+  if (Object.keys(value).some((key) => key.charAt(0) === '$')) {
+    const matches = compileDocumentSelector({ value });
+    return (item) => matches({ value: item });
+  }
+  const matches = compileDocumentSelector(value);
+  return (item) => isPlainObject(item) && matches(item);
+}
+
+/**
+ * Returns true, if the modifier consists of update operators,
+ * false, if it is a replacement document
+ * @param modifier {object}
+ * @returns {boolean}
+ */
+export function isOperatorModifier(modifier: Document): boolean {
+  const keys = Object.keys(modifier);
+  const operatorKeys = keys.filter((key) => key.charAt(0) === '$');
+  if (operatorKeys.length && operatorKeys.length !== keys.length) {
+    throw new Error(
+      'Update parameter cannot have both modifier and non-modifier fields'
+    );
+  }
+  return operatorKeys.length > 0;
+}
+
+/**
+ * Applies a Mongo modifier, or a replacement document, to a copy of the document.
+ * Supports `$set`, `$unset`, `$inc`, `$push`, `$pull` and `$addToSet` (with `$each`),
+ * including dotted paths. `$pull` removes equal values, or the items matching a condition,
+ * e.g. `{ $gte: 6 }`, or a query on their fields, e.g. `{ id: 2 }`.
+ * @param doc {object} the document, which is not changed
+ * @param modifier {object} the update operators or the replacement document
+ * @returns {object} the modified copy
+ */
+export function applyModifier(doc: Document, modifier: Document): Document {
+  if (!isPlainObject(modifier)) {
+    throw new Error('Modifier must be an object');
+  }
+  if (!isOperatorModifier(modifier)) {
+    if (hasOwn(modifier, '_id') && !EJSON.equals(modifier._id, doc._id)) {
+      throw new Error('The _id field cannot be changed');
+    }
+    return { ...EJSON.clone(modifier), _id: doc._id };
+  }
+
+  const result = EJSON.clone(doc);
+  Object.keys(modifier).forEach((name) => {
+    const operator = operators[name];
+    if (!operator) throw new Error(`Unsupported modifier ${name}`);
+    const args = modifier[name];
+    if (!isPlainObject(args)) {
+      throw new Error(`Modifier ${name} expects an object`);
+    }
+    Object.keys(args).forEach((path) => {
+      if (path === '_id' || path.startsWith('_id.')) {
+        throw new Error('The _id field cannot be changed');
+      }
+      operator(result, path, args[path]);
+    });
+  });
+  return result;
+}
@@ -5,6 +5,12 @@ interface QueueOptions {
   isVerbose?: boolean;
 }
 
+/**
+ * The ack of the consumer: `true` removes the element, `false` stops
+ * processing and `skip` keeps the element, but continues with the next one.
+ */
+export type QueueAck = boolean | 'skip';
+
 /**
  * The internal message queue for the DDP protocol.
  */
@@ -20,6 +26,8 @@ export default class Queue<T extends object = any> {
    * It gets called with each element of the queue and its return value
    * serves as a ack, determining whether the element is removed or not from
    * the queue, allowing then subsequent elements to be processed.
+   * Elements, that are skipped, are passed to the consumer along with the
+   * following ones, which may keep their order that way.
    *
    * @constructor
    * @param {function} consumer function to be called when the next element in the queue is to be processed
@@ -27,7 +35,7 @@ export default class Queue<T extends object = any> {
    * @param isVerbose optional flag to enable logging
    */
   constructor(
-    private consumer: (element: T) => boolean,
+    private consumer: (element: T, skipped: readonly T[]) => QueueAck,
     options: QueueOptions = {
       isVerbose: false,
     }
@@ -49,19 +57,26 @@ export default class Queue<T extends object = any> {
 
   /**
    * Sync; processes the queue by each element, starting with the first
-   * and passing each to the consumer.
+   * and passing each to the consumer, until it rejects one.
    */
   process(): void {
-    if (this.queue.length !== 0) {
-      const current = this.queue[0]!;
+    const skipped: T[] = [];
+    let index = 0;
+    while (index < this.queue.length) {
+      const current = this.queue[index]!;
       this.log('DEQUEUE_ATTEMPT', current);
-      const ack = this.consumer(current);
-      if (ack) {
-        this.queue.shift();
+      const ack = this.consumer(current, skipped);
+      if (ack === 'skip') {
+        this.log('DEQUEUE_SKIPPED', current);
+        skipped.push(current);
+        index += 1;
+      } else if (ack) {
+        const position = this.queue.indexOf(current);
+        if (position !== -1) this.queue.splice(position, 1);
         this.log('DEQUEUE_SUCCESS', current);
-        this.process();
       } else {
         this.log('DEQUEUE_FAILED', current);
+        return;
       }
     }
   }
@@ -80,6 +95,30 @@ export default class Queue<T extends object = any> {
     this.process();
   }
 
+  /**
+   * Removes all elements from the queue, that match the given predicate
+   * @param predicate {function} returns true for elements to remove
+   * @returns {number} the number of removed elements
+   */
+  remove(predicate: (element: T) => boolean): number {
+    const length = this.queue.length;
+    this.queue = this.queue.filter((el) => {
+      if (!predicate(el)) return true;
+      this.log('REMOVE', el);
+      return false;
+    });
+    return length - this.queue.length;
+  }
+
+  /**
+   * Returns true, if any element of the queue matches the given predicate
+   * @param predicate {function} returns true for a matching element
+   * @returns {boolean}
+   */
+  some(predicate: (element: T) => boolean): boolean {
+    return this.queue.some(predicate);
+  }
+
   /**
    * Clears all elements from the queue
    */
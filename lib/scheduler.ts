@@ -0,0 +1,102 @@
+/**
+ * Policy for the delays between reconnection attempts
+ */
+export interface BackoffOptions {
+  /** delay of the first attempt in ms */
+  base?: number;
+  /** upper bound of the delay in ms */
+  max?: number;
+  /** factor by which the delay grows with each attempt */
+  multiplier?: number;
+  /** random spread of the delay, e.g. 0.5 spreads it by ±25%, 0 disables it */
+  jitter?: number;
+}
+
+/**
+ * The default backoff policy
+ * @type {object}
+ * @private
+ */
+const DEFAULT_BACKOFF = {
+  base: 1500,
+  max: 60000,
+  multiplier: 2,
+  jitter: 0.5,
+};
+
+/**
+ * Schedules reconnection attempts with exponential backoff and jitter,
+ * so clients don't reconnect all at once, for example after a server restart.
+ * Only one attempt is scheduled at a time; scheduling replaces the pending one.
+ * @class
+ */
+export default class ReconnectScheduler {
+  base: number;
+  max: number;
+  multiplier: number;
+  jitter: number;
+  private timer: ReturnType<typeof setTimeout> | null;
+
+  /**
+   * @constructor
+   * @param options {object=} the backoff policy
+   * @param options.base {number=} delay of the first attempt in ms
+   * @param options.max {number=} upper bound of the delay in ms
+   * @param options.multiplier {number=} factor by which the delay grows with each attempt
+   * @param options.jitter {number=} random spread of the delay, between 0 and 1
+   */
+  constructor(options: BackoffOptions = {}) {
+    this.base = options.base ?? DEFAULT_BACKOFF.base;
+    this.max = options.max ?? DEFAULT_BACKOFF.max;
+    this.multiplier = options.multiplier ?? DEFAULT_BACKOFF.multiplier;
+    this.jitter = Math.min(
+      1,
+      Math.max(0, options.jitter ?? DEFAULT_BACKOFF.jitter)
+    );
+    this.timer = null;
+  }
+
+  /**
+   * Returns the delay for the given attempt
+   * @param attempt {number} zero-based number of the attempt
+   * @returns {number} the delay in ms
+   */
+  delay(attempt: number): number {
+    const exact = Math.min(
+      this.max,
+      this.base * Math.pow(this.multiplier, attempt)
+    );
+    const spread = exact * this.jitter;
+    return Math.round(exact - spread / 2 + Math.random() * spread);
+  }
+
+  /**
+   * Schedules the callback, cancelling any pending one
+   * @param callback {function} the reconnection attempt
+   * @param delay {number} the delay in ms
+   */
+  schedule(callback: () => void, delay: number) {
+    this.cancel();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      callback();
+    }, delay);
+  }
+
+  /**
+   * Cancels the pending attempt, if any
+   */
+  cancel() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * @returns {boolean} true, if an attempt is pending
+   */
+  get isScheduled(): boolean {
+    return this.timer !== null;
+  }
+}
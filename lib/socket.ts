@@ -1,6 +1,7 @@
 import EventEmitter from 'eventemitter3';
 import EJSON from 'ejson';
 import './mongo-id'; //  Register mongo object ids */
+import type { Transport, TransportConstructor } from './transport';
 
 type SocketEventMap = {
   open: void;
@@ -14,7 +15,7 @@ const events = ['open', 'close', 'message:in', 'message:out'] as const;
 
 /**
  * Wrapper-class for whatever native Websocket implementation
- * we use.
+ * we use, or any other {Transport}.
  * Standardizes messaging, so it's compatible with the Meteor backend.
  * @class
  */
@@ -34,23 +35,20 @@ export default class Socket extends EventEmitter<SocketEventMap> {
    * });
    * socket.open();
    * @constructor
-   * @param SocketConstructor {function} constructor function (Es5) or class (es6+) passed. Don't pass the instance!
+   * @param SocketConstructor {TransportConstructor} constructor function (Es5) or class (es6+) passed. Don't pass the instance!
    * @param endpoint {string} the websocket endpoint, usually (but not necessarily)
    *  starts with ws:// or wss:// and ends with /websocket
    */
-  private SocketConstructor: new (endpoint: string) => any;
+  private SocketConstructor: TransportConstructor;
   private endpoint: string;
-  private rawSocket: any;
+  private rawSocket: Transport | null;
   private closing?: boolean;
 
-  constructor(
-    SocketConstructor: new (endpoint: string) => any,
-    endpoint: string
-  ) {
+  constructor(SocketConstructor: TransportConstructor, endpoint: string) {
     super();
     this.SocketConstructor = SocketConstructor;
     this.endpoint = endpoint;
-    (this as any).rawSocket = null;
+    this.rawSocket = null;
   }
 
   /**
@@ -61,7 +59,7 @@ export default class Socket extends EventEmitter<SocketEventMap> {
   send(object: any) {
     if (!this.closing) {
       const message = EJSON.stringify(object);
-      this.rawSocket.send(message);
+      (this.rawSocket as Transport).send(message);
       // Emit a copy of the object, as the listener might mutate it.
       this.emit('message:out', EJSON.parse(message));
     }
@@ -151,4 +149,30 @@ export default class Socket extends EventEmitter<SocketEventMap> {
       this.rawSocket.close();
     }
   }
+
+  /**
+   * Closes the socket without waiting for the closing handshake,
+   * which never completes on a dead connection.
+   * Emits the 'close' event right away.
+   * @param reason {string} the reason, passed with the 'close' event
+   * @emits 'close' event
+   */
+  forceClose(reason: string) {
+    const rawSocket = this.rawSocket;
+    if (!rawSocket) {
+      return;
+    }
+    rawSocket.onopen = null;
+    rawSocket.onclose = null;
+    rawSocket.onmessage = null;
+    rawSocket.onerror = null;
+    this.rawSocket = null;
+    try {
+      rawSocket.close();
+    } catch (e) {
+      // the socket is dead anyway
+    }
+    this.closing = false;
+    this.emit('close', { reason, wasClean: false });
+  }
 }
@@ -0,0 +1,346 @@
+import Random from './Random';
+import type {
+  Transport,
+  TransportCloseEvent,
+  TransportConstructor,
+} from './transport';
+
+/**
+ * The SockJS protocols we implement, see https://github.com/sockjs/sockjs-protocol
+ */
+export type SockJSProtocol = 'websocket' | 'xhr-streaming' | 'xhr-polling';
+
+/**
+ * Options of {createSockJSTransport}
+ */
+export interface SockJSOptions {
+  /** the protocols to try, in this order; defaults to all */
+  protocols?: SockJSProtocol[];
+  /** defaults to the global `WebSocket` */
+  WebSocket?: TransportConstructor;
+  /** defaults to the global `XMLHttpRequest` */
+  XMLHttpRequest?: new () => XMLHttpRequest;
+  /** ms to wait for a protocol to open, before trying the next one */
+  connectTimeout?: number;
+}
+
+/**
+ * @private
+ */
+const DEFAULT_PROTOCOLS: SockJSProtocol[] = [
+  'websocket',
+  'xhr-streaming',
+  'xhr-polling',
+];
+
+/**
+ * The default timeout in ms to wait for a protocol to open
+ * @private
+ */
+const DEFAULT_CONNECT_TIMEOUT = 10000;
+
+/**
+ * @private
+ */
+const CONNECTING = 0;
+/**
+ * @private
+ */
+const OPEN = 1;
+/**
+ * @private
+ */
+const CLOSED = 3;
+
+/**
+ * Returns the SockJS url of the server, e.g. `https://host/sockjs`
+ * for `https://host`, `wss://host/websocket` or `https://host/sockjs`
+ * @param endpoint {string}
+ * @returns {string}
+ */
+export function toSockJSUrl(endpoint: string): string {
+  const base = endpoint
+    .replace(/^ws(s?):\/\//, 'http$1://')
+    .replace(/\/(websocket|sockjs)\/?$/, '')
+    .replace(/\/$/, '');
+  return `${base}/sockjs`;
+}
+
+/**
+ * Sends DDP messages over SockJS framing, with a raw websocket or,
+ * if websockets are blocked, XHR streaming or polling.
+ * @private
+ */
+class SockJSTransport implements Transport {
+  onopen: Transport['onopen'] = null;
+  onmessage: Transport['onmessage'] = null;
+  onclose: Transport['onclose'] = null;
+  onerror: Transport['onerror'] = null;
+  readyState: number;
+  protocol: SockJSProtocol | null;
+  private options: SockJSOptions;
+  private baseUrl: string;
+  private protocols: SockJSProtocol[];
+  private sessionUrl: string;
+  private ws: Transport | null;
+  private receiver: XMLHttpRequest | null;
+  private sender: XMLHttpRequest | null;
+  private outbox: string[];
+  private connectTimer: ReturnType<typeof setTimeout> | null;
+
+  constructor(endpoint: string, options: SockJSOptions) {
+    this.options = options;
+    this.baseUrl = toSockJSUrl(endpoint);
+    this.protocols = (options.protocols ?? DEFAULT_PROTOCOLS).slice();
+    this.readyState = CONNECTING;
+    this.protocol = null;
+    this.sessionUrl = '';
+    this.ws = null;
+    this.receiver = null;
+    this.sender = null;
+    this.outbox = [];
+    this.connectTimer = null;
+    Promise.resolve().then(() => this.tryNextProtocol());
+  }
+
+  send(data: string) {
+    if (this.readyState !== OPEN) {
+      throw new Error('SockJS transport is not open');
+    }
+    if (this.ws) {
+      this.ws.send(JSON.stringify([data]));
+      return;
+    }
+    this.outbox.push(data);
+    this.flush();
+  }
+
+  close() {
+    if (this.readyState === CLOSED) return;
+    this.finish({ code: 1000, reason: 'Normal closure', wasClean: true });
+  }
+
+  /**
+   * Starts a new session with the next protocol, or fails, if none is left
+   * @private
+   */
+  private tryNextProtocol() {
+    if (this.readyState !== CONNECTING) return;
+    const protocol = this.protocols.shift();
+    if (!protocol) {
+      this.onerror?.({ message: 'All SockJS protocols failed' });
+      this.finish({
+        code: 2000,
+        reason: 'All transports failed',
+        wasClean: false,
+      });
+      return;
+    }
+    const serverId = String(Math.floor(Math.random() * 1000)).padStart(3, '0');
+    this.sessionUrl = `${this.baseUrl}/${serverId}/${Random.id(8)}`;
+    this.protocol = protocol;
+    // a protocol, that neither opens nor fails, must not block the others
+    if (this.connectTimer) clearTimeout(this.connectTimer);
+    this.connectTimer = setTimeout(
+      () => this.abandonAttempt(),
+      this.options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT
+    );
+    if (protocol === 'websocket') this.openWebSocket();
+    else this.receive();
+  }
+
+  /** @private */
+  private openWebSocket() {
+    const WebSocketConstructor =
+      this.options.WebSocket ?? (globalThis as any).WebSocket;
+    if (!WebSocketConstructor) return this.tryNextProtocol();
+    let ws: Transport;
+    try {
+      ws = new WebSocketConstructor(
+        `${this.sessionUrl.replace(/^http/, 'ws')}/websocket`
+      );
+    } catch (e) {
+      return this.tryNextProtocol();
+    }
+    this.ws = ws;
+    ws.onopen = null;
+    ws.onerror = null;
+    ws.onmessage = ({ data }) => {
+      if (this.ws === ws) this.handleFrame(String(data));
+    };
+    ws.onclose = (event) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      if (this.readyState === CONNECTING) this.tryNextProtocol();
+      else this.finish({ ...event, wasClean: false });
+    };
+  }
+
+  /**
+   * Closes the attempt, that did not open in time, and tries the next protocol
+   * @private
+   */
+  private abandonAttempt() {
+    this.connectTimer = null;
+    if (this.readyState !== CONNECTING) return;
+    const { ws, receiver } = this;
+    this.ws = null;
+    this.receiver = null;
+    ws?.close();
+    receiver?.abort();
+    this.tryNextProtocol();
+  }
+
+  /**
+   * Receives frames with a long running request, separated by newlines,
+   * and starts the next request, once the server ends it
+   * @private
+   */
+  private receive() {
+    const suffix = this.protocol === 'xhr-polling' ? 'xhr' : 'xhr_streaming';
+    const xhr = this.request(`${this.sessionUrl}/${suffix}`);
+    if (!xhr) return this.tryNextProtocol();
+    this.receiver = xhr;
+    let offset = 0;
+    const readFrames = (complete: boolean) => {
+      const text = xhr.responseText || '';
+      let end = text.indexOf('\n', offset);
+      while (end !== -1 && this.receiver === xhr) {
+        const frame = text.slice(offset, end);
+        offset = end + 1;
+        if (frame) this.handleFrame(frame);
+        end = text.indexOf('\n', offset);
+      }
+      if (complete && offset < text.length && this.receiver === xhr) {
+        this.handleFrame(text.slice(offset));
+      }
+    };
+    xhr.onprogress = () => readFrames(false);
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState !== 4 || this.receiver !== xhr) return;
+      if (xhr.status !== 200) {
+        this.receiver = null;
+        if (this.readyState === CONNECTING) this.tryNextProtocol();
+        else this.lost();
+        return;
+      }
+      readFrames(true);
+      if (this.receiver === xhr) this.receive();
+    };
+    xhr.send();
+  }
+
+  /**
+   * Sends the queued messages in one request, one request at a time
+   * @private
+   */
+  private flush() {
+    if (this.sender || !this.outbox.length) return;
+    const xhr = this.request(`${this.sessionUrl}/xhr_send`);
+    if (!xhr) return this.lost();
+    const batch = this.outbox.splice(0, this.outbox.length);
+    this.sender = xhr;
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState !== 4 || this.sender !== xhr) return;
+      this.sender = null;
+      if (xhr.status !== 200 && xhr.status !== 204) return this.lost();
+      this.flush();
+    };
+    xhr.setRequestHeader('Content-Type', 'text/plain;charset=UTF-8');
+    xhr.send(JSON.stringify(batch));
+  }
+
+  /** @private */
+  private request(url: string): XMLHttpRequest | null {
+    const XHR =
+      this.options.XMLHttpRequest ?? (globalThis as any).XMLHttpRequest;
+    if (!XHR) return null;
+    const xhr: XMLHttpRequest = new XHR();
+    xhr.open('POST', url, true);
+    return xhr;
+  }
+
+  /**
+   * Handles a single SockJS frame: `o`pen, `h`eartbeat,
+   * `a`rray of messages, single `m`essage or `c`lose
+   * @private
+   */
+  private handleFrame(frame: string) {
+    const type = frame.charAt(0);
+    const payload = frame.slice(1);
+    if (type === 'o') {
+      if (this.readyState !== CONNECTING) return;
+      if (this.connectTimer) clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+      this.readyState = OPEN;
+      this.onopen?.();
+    } else if (type === 'a' || type === 'm') {
+      if (this.readyState !== OPEN) return;
+      let messages: string[];
+      try {
+        messages = type === 'a' ? JSON.parse(payload) : [JSON.parse(payload)];
+      } catch (e) {
+        return;
+      }
+      messages.forEach((data) => {
+        if (this.readyState === OPEN) this.onmessage?.({ data });
+      });
+    } else if (type === 'c') {
+      let code = 1000;
+      let reason = '';
+      try {
+        [code, reason] = JSON.parse(payload);
+      } catch (e) {
+        // keep the defaults
+      }
+      this.finish({ code, reason, wasClean: true });
+    }
+  }
+
+  /** @private */
+  private lost() {
+    this.finish({ code: 1006, reason: 'Connection lost', wasClean: false });
+  }
+
+  /** @private */
+  private finish(event: TransportCloseEvent) {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    if (this.connectTimer) clearTimeout(this.connectTimer);
+    this.connectTimer = null;
+    const { ws, receiver, sender } = this;
+    this.ws = null;
+    this.receiver = null;
+    this.sender = null;
+    this.outbox = [];
+    if (ws) ws.close();
+    receiver?.abort();
+    sender?.abort();
+    Promise.resolve().then(() => this.onclose?.(event));
+  }
+}
+
+/**
+ * Creates a transport, that connects to the SockJS endpoint of a Meteor server
+ * (`/sockjs`), for networks that block raw websockets. It tries a websocket first
+ * and falls back to XHR streaming and polling. Pass the result as `SocketConstructor`
+ * or connect with the `transport: 'sockjs'` option of {Meteor.connect}.
+ *
+ * @param options {object=} optional options
+ * @param options.protocols {string[]=} the protocols to try, in this order:
+ *   `websocket`, `xhr-streaming` and `xhr-polling` by default
+ * @param options.WebSocket {function=} defaults to the global `WebSocket`
+ * @param options.XMLHttpRequest {function=} defaults to the global `XMLHttpRequest`
+ * @param options.connectTimeout {number=} ms to wait for a protocol to open,
+ *   before trying the next one; 10000 by default
+ * @returns {TransportConstructor}
+ */
+export function createSockJSTransport(
+  options: SockJSOptions = {}
+): TransportConstructor {
+  return class extends SockJSTransport {
+    constructor(endpoint: string) {
+      super(endpoint, options);
+    }
+  };
+}
@@ -0,0 +1,167 @@
+import EJSON from 'ejson';
+
+/**
+ * The event, passed to {Transport.onclose}
+ */
+export type TransportCloseEvent = {
+  code?: number;
+  reason?: string;
+  wasClean?: boolean;
+};
+
+/**
+ * The contract of the `SocketConstructor` option, a subset of the WebSocket API.
+ * The transport is created with the endpoint and opens itself; messages are
+ * EJSON strings. All callbacks are assigned by {Socket} before the transport opens.
+ */
+export interface Transport {
+  /** invoked, once the transport is open and messages can be sent */
+  onopen: (() => void) | null;
+  /** invoked with each incoming message, as `{ data }` */
+  onmessage: ((event: { data: string }) => void) | null;
+  /** invoked, once the transport is closed, by either side */
+  onclose: ((event: TransportCloseEvent) => void) | null;
+  /** invoked on errors, which are usually followed by `onclose` */
+  onerror: ((event: any) => void) | null;
+  /** sends a message */
+  send(data: string): void;
+  /** closes the transport, which leads to `onclose` */
+  close(): void;
+}
+
+/**
+ * A class or constructor function, that creates a {Transport} for the endpoint,
+ * for example the global `WebSocket`
+ */
+export type TransportConstructor = new (endpoint: string) => Transport;
+
+/**
+ * The server side of a loopback transport, passed to the connection handler
+ * of {createLoopbackTransport}. Messages are parsed objects, not strings.
+ */
+export interface LoopbackPeer {
+  /** the endpoint, the client connected to */
+  endpoint: string;
+  /** invoked with each message, the client sends */
+  onmessage: ((message: any) => void) | null;
+  /** invoked, once the client closed the transport */
+  onclose: (() => void) | null;
+  /** sends a message to the client */
+  send(message: any): void;
+  /** closes the transport from the server side */
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Delivers asynchronously, like a real socket
+ * @private
+ */
+const deliver = (fn: () => void) => {
+  Promise.resolve().then(fn);
+};
+
+/**
+ * @private
+ */
+const CONNECTING = 0;
+/**
+ * @private
+ */
+const OPEN = 1;
+/**
+ * @private
+ */
+const CLOSED = 3;
+
+/**
+ * In-memory transport, that connects the client directly to a handler
+ * in the same JS context
+ * @private
+ */
+class LoopbackTransport implements Transport {
+  onopen: Transport['onopen'] = null;
+  onmessage: Transport['onmessage'] = null;
+  onclose: Transport['onclose'] = null;
+  onerror: Transport['onerror'] = null;
+  readyState: number;
+  private peer: LoopbackPeer;
+
+  constructor(endpoint: string, onConnection: (peer: LoopbackPeer) => void) {
+    this.readyState = CONNECTING;
+    const transport = this;
+    this.peer = {
+      endpoint,
+      onmessage: null,
+      onclose: null,
+      send(message: any) {
+        if (transport.readyState !== OPEN) return;
+        const data = EJSON.stringify(message);
+        deliver(() => {
+          if (transport.readyState === OPEN) transport.onmessage?.({ data });
+        });
+      },
+      close(code = 1000, reason = '') {
+        transport.closeWith({ code, reason, wasClean: true }, false);
+      },
+    };
+
+    deliver(() => {
+      if (this.readyState !== CONNECTING) return;
+      this.readyState = OPEN;
+      onConnection(this.peer);
+      this.onopen?.();
+    });
+  }
+
+  send(data: string) {
+    if (this.readyState !== OPEN) {
+      throw new Error('Loopback transport is not open');
+    }
+    deliver(() => {
+      if (this.readyState === OPEN) this.peer.onmessage?.(EJSON.parse(data));
+    });
+  }
+
+  close() {
+    this.closeWith({ code: 1000, reason: '', wasClean: true }, true);
+  }
+
+  /** @private */
+  private closeWith(event: TransportCloseEvent, notifyPeer: boolean) {
+    if (this.readyState === CLOSED) return;
+    const wasOpen = this.readyState === OPEN;
+    this.readyState = CLOSED;
+    deliver(() => {
+      if (notifyPeer && wasOpen) this.peer.onclose?.();
+      this.onclose?.(event);
+    });
+  }
+}
+
+/**
+ * Creates an in-memory transport, to run DDP against a fake server in the same
+ * JS context, e.g. in unit tests or headless environments, without a network.
+ * Pass the result as `SocketConstructor` to {DDP} or {Meteor.connect}.
+ *
+ * @example
+ * const SocketConstructor = createLoopbackTransport((peer) => {
+ *   peer.onmessage = (message) => {
+ *     if (message.msg === 'connect') {
+ *       peer.send({ msg: 'connected', session: 'session-1' });
+ *     }
+ *   };
+ * });
+ * const ddp = new DDP({ endpoint: 'ws://fake/websocket', SocketConstructor });
+ *
+ * @param onConnection {function} invoked with the {LoopbackPeer} of each new transport
+ * @returns {TransportConstructor}
+ */
+export function createLoopbackTransport(
+  onConnection: (peer: LoopbackPeer) => void
+): TransportConstructor {
+  return class extends LoopbackTransport {
+    constructor(endpoint: string) {
+      super(endpoint, onConnection);
+    }
+  };
+}
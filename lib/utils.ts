@@ -29,6 +29,19 @@ export function hashPassword(password: string): {
   };
 }
 
+/**
+ * Ducktyping check if a value is an AbortSignal, so polyfills are supported
+ * @param value {*}
+ * @returns {boolean}
+ */
+export function isAbortSignal(value: unknown): value is AbortSignal {
+  return (
+    !!value &&
+    typeof (value as any).aborted === 'boolean' &&
+    typeof (value as any).addEventListener === 'function'
+  );
+}
+
 //From Meteor core
 const class2type: Record<string, string> = {};
 
@@ -1,22 +1,439 @@
-import Data from './Data';
+import Data, { type MethodCall } from './Data';
+import {
+  isSimulation,
+  methodDataUpdated,
+  runStub,
+  type StubRun,
+} from './MethodStubs';
+import type DDP from '../lib/ddp';
+import { isAbortSignal } from '../lib/utils';
+import { persistMethod, settlePersistedMethod } from './PersistentMethods';
+import type { MethodArgs, MethodResult } from './Registry';
 
 /**
- * Calls a method over DDP with given arguments
- * @param eventName {string} required, the method to call
- * @param args {...array} optional arguments
+ * Callback of a method call, invoked with `(err, result)`
  */
-export default function call(eventName: string, ...rest: unknown[]): void {
-  const args = rest.slice();
-  let callback: ((err?: unknown, result?: unknown) => void) | undefined;
-  if (args.length && typeof args[args.length - 1] === 'function') {
-    callback = args.pop() as (err?: unknown, result?: unknown) => void;
+export type MethodCallback<TResult = unknown> = (
+  err?: unknown,
+  result?: TResult
+) => void;
+
+/**
+ * Arguments of {call}: the method arguments, optionally followed
+ * by an AbortSignal and the callback
+ */
+export type CallArgs<Name extends string> =
+  | MethodArgs<Name>
+  | [...MethodArgs<Name>, MethodCallback<MethodResult<Name>>]
+  | [...MethodArgs<Name>, AbortSignal]
+  | [...MethodArgs<Name>, AbortSignal, MethodCallback<MethodResult<Name>>];
+
+/**
+ * Options for a single method call, see {apply}
+ */
+export type ApplyOptions<TResult = unknown> = {
+  wait?: boolean;
+  noRetry?: boolean;
+  timeout?: number;
+  onResultReceived?: MethodCallback<TResult>;
+  persist?: boolean;
+  persistId?: string;
+  signal?: AbortSignal;
+};
+
+/**
+ * Error shape of a failed method call, compatible with `Meteor.Error`.
+ */
+export type MethodError = Error & {
+  error?: number | string;
+  reason?: string;
+  details?: unknown;
+};
+
+/**
+ * Converts a DDP method error payload into an Error instance
+ * that carries Meteor-style `error`, `reason` and `details` fields.
+ * @private
+ * @param err {object|Error|string}
+ * @returns {Error}
+ */
+export function toMethodError(err: unknown): MethodError {
+  if (err instanceof Error) return err;
+  if (err && typeof err === 'object') {
+    const { error, reason, details, message } = err as Record<string, any>;
+    const text =
+      typeof message === 'string' && message
+        ? message
+        : reason
+        ? `${reason} [${error}]`
+        : `[${error}]`;
+    const methodError: MethodError = new Error(text);
+    methodError.error = error;
+    methodError.reason = reason;
+    methodError.details = details;
+    return methodError;
   }
+  return new Error(String(err));
+}
+
+/**
+ * Returns true, if the call failed, because the connection has been lost
+ * @private
+ * @param err {*} the error of the call
+ * @returns {boolean}
+ */
+export function isConnectionLost(err: unknown): boolean {
+  return (
+    typeof err === 'object' &&
+    err !== null &&
+    'error' in err &&
+    err.error === 'connection-lost'
+  );
+}
+
+/**
+ * The connection a method is sent over: its DDP instance and pending calls.
+ * `Data` is the target of `Meteor.connect`, a `Connection` of `Meteor.connectTo`.
+ */
+export type MethodTarget = {
+  ddp: DDP | null;
+  calls: MethodCall[];
+};
 
-  const ddp = Data.ddp;
+/**
+ * Sends the method and registers the callback in the target's `calls`.
+ * Stubs and persistence apply only to the default connection.
+ * @private
+ */
+function sendMethod(
+  target: MethodTarget,
+  eventName: string,
+  args: unknown[],
+  options: ApplyOptions = {},
+  callback?: MethodCallback
+) {
+  const ddp = target.ddp;
   if (!ddp)
     throw new Error('DDP is not initialized. Call Meteor.connect() first.');
-  const id = ddp.method(eventName, args);
-  const entry: any = { id };
+
+  const isDefault = target === Data;
+  // Calls from within a stub only simulate the called method locally
+  if (isDefault && isSimulation()) {
+    const { error, result } = runStub(eventName, args);
+    callback?.(error, result);
+    return;
+  }
+
+  const { wait, noRetry, timeout, onResultReceived, signal } = options;
+  if (signal?.aborted) return;
+
+  const persisted =
+    isDefault && options.persist && Data._options.persistMethods
+      ? persistMethod(eventName, args, options.persistId)
+      : null;
+  const stubRun: StubRun = isDefault
+    ? runStub(eventName, args)
+    : { recordWrites() {} };
+  const id = ddp.method(eventName, args, {
+    wait: !!wait,
+    noRetry: !!noRetry,
+    ...(stubRun.randomSeed !== undefined && {
+      randomSeed: stubRun.randomSeed,
+    }),
+  });
+  stubRun.recordWrites(id);
+
+  if (persisted) {
+    const methodCallback = callback;
+    callback = (err, result) => {
+      settlePersistedMethod(persisted.id, err);
+      // the persisted entry replays it, so it must not be sent from the queue
+      if (isConnectionLost(err)) ddp.cancelMethod(id);
+      methodCallback?.(err, result);
+    };
+  }
+  // the call is given up: its method is neither sent nor replayed, and the
+  // documents, written by its stub, return to the server's version.
+  // Writes of a sent method, that the server still makes, arrive as usual.
+  const abandon = () => {
+    ddp.cancelMethod(id);
+    if (isDefault) methodDataUpdated(id);
+  };
+  const onAbort = () => {
+    const idx = target.calls.indexOf(entry);
+    if (idx === -1) return;
+    target.calls.splice(idx, 1);
+    if (entry.timeoutId) clearTimeout(entry.timeoutId);
+    if (persisted) settlePersistedMethod(persisted.id, { error: 'aborted' });
+    abandon();
+  };
+  if (signal) {
+    const methodCallback = callback;
+    callback = (err, result) => {
+      signal.removeEventListener('abort', onAbort);
+      methodCallback?.(err, result);
+    };
+  }
+  const entry: MethodCall = { id };
   if (callback) entry.callback = callback;
-  Data.calls.push(entry);
+  if (onResultReceived) entry.onResultReceived = onResultReceived;
+  if (timeout && timeout > 0) {
+    entry.timeoutId = setTimeout(() => {
+      const idx = target.calls.indexOf(entry);
+      if (idx === -1) return;
+      target.calls.splice(idx, 1);
+      abandon();
+      const reason = `Method "${eventName}" timed out after ${timeout}ms`;
+      entry.callback?.({
+        error: 'timeout',
+        reason,
+        message: `${reason} [timeout]`,
+      });
+    }, timeout);
+  }
+  target.calls.push(entry);
+  signal?.addEventListener('abort', onAbort, { once: true });
+}
+
+/**
+ * Removes a trailing AbortSignal from the arguments
+ * @private
+ */
+function popSignal(args: unknown[]): AbortSignal | undefined {
+  return args.length && isAbortSignal(args[args.length - 1])
+    ? (args.pop() as AbortSignal)
+    : undefined;
+}
+
+/**
+ * Creates `call`, `apply` and `callAsync` for the given target
+ * @private
+ * @param target {MethodTarget}
+ * @returns {object}
+ */
+export function createMethodCaller(target: MethodTarget) {
+  /**
+   * Calls a method over DDP with given arguments
+   * @param eventName {string} required, the method to call
+   * @param args {...array} optional arguments, an AbortSignal may be passed
+   *   as last argument (before the callback) to abort the call
+   */
+  function call<Name extends string>(
+    eventName: Name,
+    ...rest: CallArgs<Name>
+  ): void {
+    const args: unknown[] = [...rest];
+    let callback: MethodCallback | undefined;
+    if (args.length && typeof args[args.length - 1] === 'function') {
+      callback = args.pop() as MethodCallback;
+    }
+    const signal = popSignal(args);
+    sendMethod(target, eventName, args, signal ? { signal } : {}, callback);
+  }
+
+  /**
+   * Calls a method over DDP with an array of arguments and per-call options
+   * @param eventName {string} required, the method to call
+   * @param args {array=} optional array of arguments
+   * @param options {object=} optional options
+   * @param options.wait {boolean=} hold back later method calls until this one has returned
+   * @param options.noRetry {boolean=} fail with `invocation-failed` instead of replaying after a reconnect
+   * @param options.timeout {number=} fail the callback with a `timeout` error after the given ms
+   * @param options.onResultReceived {function=} invoked with `(err, result)` as soon as the result arrives
+   * @param options.persist {boolean=} save the call to the KeyStorage and replay it after the next login,
+   *   if the connection is lost; requires the `persistMethods` option of `Meteor.connect`
+   * @param options.persistId {string=} id of the saved call, calls with the same id replace each other
+   * @param options.signal {AbortSignal=} aborts the call, the callback is not invoked afterwards
+   * @param callback {function=} optional callback, invoked with `(err, result)`
+   */
+  function apply<Name extends string>(
+    eventName: Name,
+    args?: MethodArgs<Name>,
+    options?:
+      | ApplyOptions<MethodResult<Name>>
+      | MethodCallback<MethodResult<Name>>,
+    callback?: MethodCallback<MethodResult<Name>>
+  ): void {
+    if (typeof options === 'function') {
+      callback = options;
+      options = {};
+    }
+    sendMethod(
+      target,
+      eventName,
+      args ?? [],
+      options as ApplyOptions,
+      callback as MethodCallback | undefined
+    );
+  }
+
+  /**
+   * Calls a method over DDP and returns a Promise of its result.
+   * Rejects with a Meteor-style error, including `connection-lost`
+   * when the connection drops before the result arrives.
+   * @param eventName {string} required, the method to call
+   * @param args {...array} optional arguments, an AbortSignal may be passed
+   *   as last argument to abort the call, which rejects with an `aborted` error
+   * @returns {Promise<*>} resolves with the method result
+   */
+  function callAsync<Name extends string>(
+    eventName: Name,
+    ...rest: MethodArgs<Name> | [...MethodArgs<Name>, AbortSignal]
+  ): Promise<MethodResult<Name>> {
+    const args: unknown[] = [...rest];
+    const signal = popSignal(args);
+    return new Promise<MethodResult<Name>>((resolve, reject) => {
+      const onAbort = () =>
+        reject(
+          toMethodError({
+            error: 'aborted',
+            reason: `Method "${eventName}" was aborted`,
+          })
+        );
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const options = signal ? { signal } : {};
+      sendMethod(target, eventName, args, options, (err, result) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (err) reject(toMethodError(err));
+        else resolve(result as MethodResult<Name>);
+      });
+    });
+  }
+
+  return { call, apply, callAsync };
+}
+
+/**
+ * @private
+ */
+const defaultCaller = createMethodCaller(Data);
+
+export default defaultCaller.call;
+export const apply = defaultCaller.apply;
+export const callAsync = defaultCaller.callAsync;
+
+/**
+ * Removes the call from the list and invokes its callback with the result
+ * @private
+ */
+function completeCall(calls: MethodCall[], call: MethodCall) {
+  const idx = calls.indexOf(call);
+  if (idx >= 0) calls.splice(idx, 1);
+  if (typeof call.callback === 'function' && call.resultMessage) {
+    call.callback(call.resultMessage.error, call.resultMessage.result);
+  }
+}
+
+/**
+ * Handles the `result` message of a method. Unless `waitForUpdated` is
+ * false, the callback runs once the `updated` message arrived as well.
+ * @private
+ * @param calls {MethodCall[]} the pending calls of the connection
+ * @param message {object} the `result` message
+ * @param waitForUpdated {boolean} wait for the method's writes (write fence)
+ */
+export function receiveResult(
+  calls: MethodCall[],
+  message: { id: string; error?: unknown; result?: unknown },
+  waitForUpdated: boolean
+) {
+  const call = calls.find((c) => c.id === message.id);
+  if (!call) return;
+  if (call.timeoutId) clearTimeout(call.timeoutId);
+  if (typeof call.onResultReceived === 'function') {
+    try {
+      call.onResultReceived(message.error, message.result);
+    } catch (e) {
+      console.error('Error in method onResultReceived callback', e);
+    }
+  }
+  call.resultMessage = { error: message.error, result: message.result };
+
+  // The callback should see the method's writes, which the server
+  // confirms with the `updated` message (write fence).
+  if (!waitForUpdated || call.dataVisible) {
+    completeCall(calls, call);
+  }
+}
+
+/**
+ * Handles the `updated` message for a method, completing its call,
+ * if the result already arrived.
+ * @private
+ * @param calls {MethodCall[]} the pending calls of the connection
+ * @param id {string} the method id
+ */
+export function receiveUpdated(calls: MethodCall[], id: string) {
+  const call = calls.find((c) => c.id === id);
+  if (!call) return;
+  call.dataVisible = true;
+  if (call.resultMessage) {
+    completeCall(calls, call);
+  }
+}
+
+/**
+ * Invokes the callback of a call, that is settled outside of its
+ * `result` and `updated` messages
+ * @private
+ */
+function settleCall(
+  { callback, timeoutId }: MethodCall,
+  args: [unknown, unknown?],
+  onCallbackError?: (e: unknown) => void
+) {
+  if (timeoutId) clearTimeout(timeoutId);
+  if (typeof callback !== 'function') return;
+  try {
+    callback(...args);
+  } catch (e) {
+    if (onCallbackError) onCallbackError(e);
+    else console.error('Error in method callback after disconnect', e);
+  }
+}
+
+/**
+ * Completes the calls, whose result already arrived and which only wait for
+ * their `updated` message, which is lost with the connection.
+ * The other calls stay pending, as their methods are sent again after a reconnect.
+ * @private
+ * @param calls {MethodCall[]} the pending calls of the connection
+ * @param onCallbackError {function=} invoked, if a callback throws
+ * @returns {string[]} the ids of the completed calls
+ */
+export function completeReceivedCalls(
+  calls: MethodCall[],
+  onCallbackError?: (e: unknown) => void
+): string[] {
+  const received = calls.filter((call) => call.resultMessage);
+  received.forEach((call) => {
+    calls.splice(calls.indexOf(call), 1);
+    const { error, result } = call.resultMessage!;
+    settleCall(call, [error, result], onCallbackError);
+  });
+  return received.map((call) => call.id);
+}
+
+/**
+ * Fails all pending calls with a `connection-lost` error, so they don't
+ * hang, if the connection is not going to be restored. Calls, whose result
+ * already arrived, complete with that result instead.
+ * @private
+ * @param calls {MethodCall[]} the pending calls of the connection
+ * @param onCallbackError {function=} invoked, if a callback throws
+ */
+export function failPendingCalls(
+  calls: MethodCall[],
+  onCallbackError?: (e: unknown) => void
+) {
+  completeReceivedCalls(calls, onCallbackError);
+  const connectionError = {
+    error: 'connection-lost',
+    reason: 'DDP disconnected',
+    message: 'DDP disconnected [connection-lost]',
+  };
+  calls
+    .splice(0, calls.length)
+    .forEach((call) => settleCall(call, [connectionError], onCallbackError));
 }
@@ -3,90 +3,480 @@ import Tracker from './Tracker';
 import EJSON from 'ejson';
 import Data from './Data';
 import Random from '../lib/Random';
-import call from './Call';
+import call, { toMethodError, type MethodCallback } from './Call';
+import { methods, randomStream } from './MethodStubs';
+import { applyModifier } from '../lib/modifier';
 import { hasOwn, isPlainObject } from '../lib/utils';
+import { compileSort } from '@meteorrn/minimongo/src/selector';
+import LiveQuery, {
+  notifyLiveQueries,
+  type ObserveChangesCallbacks,
+} from './LiveQuery';
+import {
+  persistCollection,
+  type PersistOptions,
+} from './PersistentCollections';
 
 /**
+ * Computations by Minimongo collection, so equally named
+ * collections of different connections don't share them
  * @private
- * @type {object}
+ * @type {Map}
  */
-const observers: Record<string, any[]> = Object.create(null);
+const observersByComp = new Map<any, Record<string, any>>();
 /**
+ * Get the list of callbacks of the computations, that depend on a collection.
+ * Each callback checks on its own, whether the result of its cursor changed.
+ * Observers of cursors are notified by their live queries instead.
+ * @param {string} collection - Collection a change has happened on
+ * @param {object=} db - the Minimongo db of the collection, defaults to `Data.db`
+ */
+export function getObservers(collection: string, db: any = Data.db) {
+  let observersRet: Array<(...args: any[]) => void> = [];
+  const localCollection = db[collection];
+  if (!localCollection || collection in {}) return observersRet;
+  // Find the observers related to the specific query
+  const byComp = observersByComp.get(localCollection);
+  if (byComp) {
+    let keys = Object.keys(byComp);
+    for (let i = 0; i < keys.length; i++) {
+      byComp[keys[i]].callbacks.forEach(({ callback }) => {
+        observersRet.push(callback);
+      });
+    }
+  }
+  return observersRet;
+}
+
+/** @private */
+const withoutVersion = ({ _version, ...doc }: any) => doc;
+
+/**
+ * Returns true, if the cursor would fetch a different result by now,
+ * after the given document has been added, changed or removed
  * @private
- * @type {object}
+ * @param localCollection {object} the Minimongo collection
+ * @param cursor {Cursor} the cursor of the computation
+ * @param id {string} the _id of the document
+ * @param skipped {Set<string>=} the _ids of the documents, that `skip` skipped
+ * @returns {boolean}
  */
-const observersByComp: Record<string, Record<string, any>> = Object.create(
-  null
-);
+const resultChanged = (
+  localCollection: any,
+  cursor: any,
+  id: string,
+  skipped?: Set<string>
+) => {
+  const { fields, sort, skip, limit } = cursor._options;
+  const previous = cursor._docs.find((doc: any) => doc._id === id);
+  const query = cursor._selector
+    ? { $and: [{ _id: id }, cursor._selector] }
+    : { _id: id };
+  const current = localCollection.findOne(query, fields ? { fields } : {});
+  if (previous && current) {
+    if (!EJSON.equals(withoutVersion(previous), withoutVersion(current))) {
+      return true;
+    }
+    // without a projection, the sort keys are unchanged as well
+    if (!fields) return false;
+  }
+  // the order or the window may change, without the document being in it
+  if (sort || skip || limit) {
+    return windowChanged(localCollection, cursor, id, !!current, skipped);
+  }
+  return !previous !== !current;
+};
+
 /**
- * Get the list of callbacks for changes on a collection
- * @param {string} type - Type of change happening.
- * @param {string} collection - Collection it has happened on
- * @param {string} newDocument - New value of item in the collection
+ * Returns true, if the document changed its position in the sorted result,
+ * entered or left it, or moved the window of `skip` and `limit`.
+ * Compares the document with its neighbours, instead of running the query again.
+ * @private
+ * @param localCollection {object} the Minimongo collection
+ * @param cursor {Cursor} the cursor of the computation
+ * @param id {string} the _id of the document
+ * @param matches {boolean} true, if the document matches the selector by now
+ * @param skipped {Set<string>=} the _ids of the documents, that `skip` skipped
+ * @returns {boolean}
  */
-export function getObservers(
-  type: 'added' | 'changed' | 'removed',
+const windowChanged = (
+  localCollection: any,
+  cursor: any,
+  id: string,
+  matches: boolean,
+  skipped: Set<string> = new Set()
+) => {
+  const { sort, skip = 0, limit } = cursor._options;
+  const items = localCollection.items;
+  const ids: string[] = cursor._docs.map((doc: any) => doc._id);
+  const index = ids.indexOf(id);
+  const first = ids[0];
+  const last = ids[ids.length - 1];
+  const full = !!limit && ids.length === limit;
+  // a debounced rerun is pending, while the documents it fetched are gone
+  const known = [...ids, ...skipped].filter((docId) => docId !== id);
+  if (known.some((docId) => !items[docId])) return true;
+
+  // Minimongo sorts stably, so equal documents keep their insertion order
+  const bySort = sort && compileSort(sort);
+  let insertionOrder: Map<string, number> | null = null;
+  const compare = (a: string, b: string) => {
+    const order = bySort ? bySort(items[a], items[b]) : 0;
+    if (order) return order;
+    insertionOrder ??= new Map(Object.keys(items).map((key, i) => [key, i]));
+    return insertionOrder.get(a) - insertionOrder.get(b);
+  };
+  const lastSkipped = () =>
+    Array.from(skipped).reduce((a, b) => (compare(a, b) > 0 ? a : b));
+
+  if (index !== -1) {
+    if (!matches) return true;
+    // without a sort, changes keep the documents in place
+    if (!sort) return false;
+    if (index > 0 && compare(ids[index - 1], id) > 0) return true;
+    if (index < ids.length - 1 && compare(id, ids[index + 1]) > 0) return true;
+    // the documents outside of the window are unknown, except the skipped ones
+    if (index === ids.length - 1 && full) return true;
+    return index === 0 && skipped.size > 0 && compare(lastSkipped(), id) > 0;
+  }
+
+  if (skipped.has(id)) {
+    // the window moves, if a document before it leaves or passes it
+    if (first) return !matches || compare(id, first) > 0;
+    // all documents are skipped, and remain so
+    if (!matches) skipped.delete(id);
+    return false;
+  }
+
+  // the document did not match before or followed the window, so it only
+  // changes the result, if it enters the window or the documents before it
+  if (!matches) return false;
+  if (skipped.size < skip) {
+    skipped.add(id);
+    return false;
+  }
+  if (skipped.size > 0 && compare(id, lastSkipped()) < 0) return true;
+  return !full || compare(id, last) < 0;
+};
+
+/**
+ * Runs the given observer callbacks and logs their errors
+ * @private
+ */
+const _notify = (callbacks: Array<(...args: any[]) => void>, args: any[]) => {
+  callbacks.forEach((callback) => {
+    try {
+      callback(...args);
+    } catch (e) {
+      console.error('Error in observe callback', e);
+    }
+  });
+};
+
+/**
+ * Adds a document to the local store and notifies the observers
+ * @private
+ * @param collection {string} name of the collection
+ * @param id {string} the document _id
+ * @param fields {object=} the document fields
+ * @param db {object=} the Minimongo db, defaults to `Data.db`
+ */
+export function applyAdded(
   collection: string,
-  newDocument: any
+  id: string,
+  fields?: any,
+  db: any = Data.db
 ) {
-  let observersRet: Array<(...args: any[]) => void> = [];
-  if (observers[collection]) {
-    observers[collection].forEach(({ cursor, callbacks }) => {
-      const cb = callbacks[type];
-      if (!cb) return;
-
-      // For removals, always notify the dedicated 'removed' callback
-      // If there is no selector, notify unconditionally
-      if (type === 'removed' || !cursor._selector) {
-        observersRet.push(cb);
-        return;
-      }
+  if (!db[collection]) {
+    db.addCollection(collection);
+  }
+  const document = {
+    _id: id,
+    ...fields,
+  };
 
-      // Otherwise notify only if the new/changed document matches the selector
-      const matches = !!Data.db[collection].findOne({
-        $and: [{ _id: newDocument._id }, cursor._selector],
-      });
-      if (matches) observersRet.push(cb);
-    });
+  db[collection].upsert(document);
+  notifyLiveQueries(db[collection], id);
+  _notify(getObservers(collection, db), [id]);
+}
+
+/**
+ * Merges changed fields into a local document and notifies the observers.
+ * Cleared fields are removed from the document.
+ * @private
+ * @param collection {string} name of the collection
+ * @param id {string} the document _id
+ * @param fields {object=} the changed fields
+ * @param cleared {string[]=} the names of the removed fields
+ * @param db {object=} the Minimongo db, defaults to `Data.db`
+ */
+export function applyChanged(
+  collection: string,
+  id: string,
+  fields?: any,
+  cleared?: string[],
+  db: any = Data.db
+) {
+  if (!db[collection]) return;
+
+  const partialUpdate = {
+    _id: id,
+    ...fields,
+  };
+
+  const localCollection = db[collection];
+  localCollection.upsert(partialUpdate);
+  // Minimongo merges upserts, so the cleared fields are removed from the stored copy
+  const stored = localCollection.items[id];
+  (cleared || []).forEach((field: string) => {
+    delete stored[field];
+  });
+  notifyLiveQueries(localCollection, id);
+  _notify(getObservers(collection, db), [id]);
+}
+
+/**
+ * Removes a document from the local store and notifies the observers
+ * @private
+ * @param collection {string} name of the collection
+ * @param id {string} the document _id
+ * @param db {object=} the Minimongo db, defaults to `Data.db`
+ */
+export function applyRemoved(
+  collection: string,
+  id: string,
+  db: any = Data.db
+) {
+  if (!db[collection]) return;
+
+  db[collection].del(id);
+  notifyLiveQueries(db[collection], id);
+  _notify(getObservers(collection, db), [id]);
+}
+
+/**
+ * Replaces a local document with the given version, or removes it
+ * if none is given. Notifies observers only about actual changes.
+ * @private
+ * @param collection {string} name of the collection
+ * @param id {string} the document _id
+ * @param document {object=} the full document, as it should be
+ * @param db {object=} the Minimongo db, defaults to `Data.db`
+ */
+export function replaceDocument(
+  collection: string,
+  id: string,
+  document?: any,
+  db: any = Data.db
+) {
+  const current = db[collection]?.findOne({ _id: id });
+  if (!document) {
+    if (current) applyRemoved(collection, id, db);
+    return;
   }
-  // Find the observers related to the specific query
-  if (observersByComp[collection] && !(collection in {})) {
-    let keys = Object.keys(observersByComp[collection]);
-    for (let i = 0; i < keys.length; i++) {
-      observersByComp[collection][keys[i]].callbacks.forEach(
-        ({ cursor, callback }) => {
-          let findRes = cursor._selector
-            ? Data.db[collection].findOne({
-                $and: [{ _id: newDocument?._id }, cursor._selector],
-              })
-            : true;
-
-          if (findRes) {
-            observersRet.push(callback);
-          }
-        }
-      );
-    }
+
+  const { _id, ...fields } = document;
+  if (!current) {
+    applyAdded(collection, id, fields, db);
+    return;
+  }
+
+  const changed: Record<string, any> = {};
+  const cleared: string[] = [];
+  Object.keys(fields).forEach((key) => {
+    if (!EJSON.equals(fields[key], current[key])) changed[key] = fields[key];
+  });
+  Object.keys(current).forEach((key) => {
+    if (key === '_id' || key === '_version') return;
+    if (!hasOwn(fields, key)) cleared.push(key);
+  });
+  if (Object.keys(changed).length || cleared.length) {
+    applyChanged(collection, id, changed, cleared, db);
   }
-  return observersRet;
 }
 
-/** @private */
-const _registerObserver = (collection: string, cursor: any, callbacks: any) => {
-  observers[collection] = observers[collection] || [];
-  const entry = { cursor, callbacks };
-  observers[collection].push(entry);
-  return {
-    stop() {
-      const list = observers[collection];
-      if (!list) return;
-      const idx = list.indexOf(entry);
-      if (idx !== -1) list.splice(idx, 1);
-      if (list.length === 0) {
-        delete observers[collection];
-      }
-    },
+/**
+ * Returns the selector as query, a string selects the `_id`
+ * @private
+ */
+const toQuery = (selector: any) =>
+  typeof selector === 'string' ? { _id: selector } : selector ?? {};
+
+/**
+ * Returns true, if the selector selects a single document by its `_id`
+ * @private
+ */
+const isIdSelector = (selector: any) =>
+  typeof selector === 'string' ||
+  (isPlainObject(selector) &&
+    Object.keys(selector).length === 1 &&
+    typeof selector._id === 'string');
+
+/**
+ * Returns the fields, that the selector matches by value,
+ * which an upsert inserts along with the modifier
+ * @private
+ */
+const selectorFields = (query: Record<string, any>) => {
+  const fields: Record<string, any> = {};
+  Object.keys(query).forEach((key) => {
+    if (key.charAt(0) === '$' || key.includes('.')) return;
+    const value = query[key];
+    const isOperator =
+      isPlainObject(value) &&
+      Object.keys(value).some((name) => name.charAt(0) === '$');
+    if (!isOperator) fields[key] = EJSON.clone(value);
+  });
+  return fields;
+};
+
+/**
+ * Inserts a document into the local store and notifies the observers
+ * @private
+ * @returns {string} the _id of the document
+ */
+function insertDocument(collection: string, doc: any, db: any = Data.db) {
+  const { _id, ...fields } = EJSON.clone(doc);
+  if (db[collection]?.findOne({ _id })) {
+    throw new Error(`Duplicate _id '${_id}' in collection '${collection}'`);
+  }
+  applyAdded(collection, _id, fields, db);
+  return _id;
+}
+
+/**
+ * Applies the modifier to the matching documents of the local store
+ * and notifies the observers
+ * @private
+ * @returns {object} the `numberAffected` and the `insertedId` of an upsert
+ */
+function updateDocuments(
+  collection: string,
+  selector: any,
+  modifier: any,
+  options: any = {},
+  db: any = Data.db
+) {
+  const query = toQuery(selector);
+  const matches = db[collection] ? db[collection].find(query) : [];
+  const documents = options.multi ? matches : matches.slice(0, 1);
+  documents.forEach(({ _version, ...doc }) => {
+    replaceDocument(collection, doc._id, applyModifier(doc, modifier), db);
+  });
+  if (documents.length || !options.upsert) {
+    return { numberAffected: documents.length };
+  }
+
+  const _id =
+    options.insertedId ??
+    (typeof query._id === 'string' ? query._id : Random.id());
+  const doc = applyModifier({ ...selectorFields(query), _id }, modifier);
+  return { numberAffected: 1, insertedId: insertDocument(collection, doc, db) };
+}
+
+/**
+ * Removes the matching documents from the local store and notifies the observers
+ * @private
+ * @returns {number} the number of removed documents
+ */
+function removeDocuments(collection: string, selector: any, db: any = Data.db) {
+  const matches = db[collection] ? db[collection].find(toQuery(selector)) : [];
+  matches.forEach((doc) => applyRemoved(collection, doc._id, db));
+  return matches.length;
+}
+
+/**
+ * Names of the collections, whose mutation stubs are defined
+ * @private
+ */
+const mutationStubs = new Set<string>();
+
+/**
+ * Defines the stubs of the `/<name>/insert`, `/<name>/update` and `/<name>/remove`
+ * methods, which write to the local store right away. Their writes are replaced
+ * by the server's version, or rolled back, once the server reports the method's writes.
+ * @private
+ */
+function defineMutationStubs(name: string) {
+  if (mutationStubs.has(name)) return;
+  mutationStubs.add(name);
+  methods({
+    [`/${name}/insert`]: (doc: any) => insertDocument(name, doc),
+    [`/${name}/update`]: (selector: any, modifier: any, options: any) =>
+      updateDocuments(name, selector, modifier, options).numberAffected,
+    [`/${name}/remove`]: (selector: any) => removeDocuments(name, selector),
+  });
+}
+
+/**
+ * Stops the observer, once the current computation, if any, is invalidated
+ * @private
+ */
+const stopOnInvalidate = (handle: { stop: () => void }) => {
+  if (Tracker.active) Tracker.onInvalidate(() => handle.stop());
+  return handle;
+};
+
+/**
+ * Observes the result set of the cursor with document callbacks, on top of
+ * its live query. If ordered, the indices refer to the result set.
+ * @private
+ */
+const _observe = (cursor: any, callbacks: any, ordered: boolean) => {
+  const ids: string[] = [];
+  const docs = new Map<string, any>();
+  // the current documents are tracked, even if the callbacks are suppressed
+  let initializing = !!callbacks._suppress_initial;
+  const added = (id: string, fields: any, before: string | null) => {
+    const doc = { _id: id, ...fields };
+    docs.set(id, doc);
+    const index = before === null ? ids.length : ids.indexOf(before);
+    // the position is recorded, so later indices account for the document
+    if (ordered) ids.splice(index, 0, id);
+    if (initializing) return;
+    if (!ordered) return callbacks.added?.(doc, null);
+    if (callbacks.addedAt) callbacks.addedAt(doc, index, before);
+    else callbacks.added?.(doc, null);
   };
+  const query = new LiveQuery(
+    cursor._collection._collection,
+    cursor._selector,
+    cursor._options,
+    {
+      added: (id, fields) => added(id, fields, null),
+      addedBefore: added,
+      changed(id, fields) {
+        const oldDoc = docs.get(id);
+        const doc = { ...oldDoc, ...EJSON.clone(fields) };
+        Object.keys(fields).forEach((key) => {
+          if (fields[key] === undefined) delete doc[key];
+        });
+        docs.set(id, doc);
+        if (ordered && callbacks.changedAt) {
+          callbacks.changedAt(doc, oldDoc, ids.indexOf(id));
+        } else callbacks.changed?.(doc, oldDoc, fields);
+      },
+      movedBefore(id, before) {
+        const fromIndex = ids.indexOf(id);
+        ids.splice(fromIndex, 1);
+        const toIndex = before === null ? ids.length : ids.indexOf(before);
+        ids.splice(toIndex, 0, id);
+        callbacks.movedTo?.(docs.get(id), fromIndex, toIndex, before);
+      },
+      removed(id) {
+        const oldDoc = docs.get(id);
+        docs.delete(id);
+        if (!ordered) return callbacks.removed?.(id, oldDoc);
+        const index = ids.indexOf(id);
+        ids.splice(index, 1);
+        if (callbacks.removedAt) callbacks.removedAt(oldDoc, index);
+        else callbacks.removed?.(id, oldDoc);
+      },
+    },
+    ordered
+  );
+  initializing = false;
+  return stopOnInvalidate({ stop: () => query.stop() });
 };
 
 /**
@@ -115,6 +505,21 @@ type ObserveCallbacks<T> = {
   ) => void;
   /** Called when a document is removed */
   removed?: (id: string, oldDoc: T | undefined) => void;
+  /** Called with the index in the result set, instead of `added` */
+  addedAt?: (doc: T, atIndex: number, before: string | null) => void;
+  /** Called with the index in the result set, instead of `changed` */
+  changedAt?: (newDoc: T, oldDoc: T, atIndex: number) => void;
+  /** Called when a document moves within the result set */
+  movedTo?: (
+    doc: T,
+    fromIndex: number,
+    toIndex: number,
+    before: string | null
+  ) => void;
+  /** Called with the former index in the result set, instead of `removed` */
+  removedAt?: (oldDoc: T, atIndex: number) => void;
+  /** skips `added` and `addedAt` for the documents, that are already in the result set */
+  _suppress_initial?: boolean;
 };
 
 class Cursor<T = any> {
@@ -124,14 +529,22 @@ class Cursor<T = any> {
    * @param collection
    * @param docs
    * @param selector
+   * @param options {object=} the options of the query
    */
   _docs: T[];
   _collection: Collection<T>;
   _selector: any;
-  constructor(collection: Collection<T>, docs: T[], selector: any) {
+  _options: any;
+  constructor(
+    collection: Collection<T>,
+    docs: T[],
+    selector: any,
+    options?: any
+  ) {
     this._docs = docs || [];
     this._collection = collection;
     this._selector = selector;
+    this._options = options ?? {};
   }
 
   /**
@@ -186,16 +599,47 @@ class Cursor<T = any> {
   }
 
   /**
-   * Registers an observer for the given callbacks
+   * Registers an observer for the given callbacks. `added` is invoked for the
+   * current documents right away, unless `_suppress_initial` is set. The observer
+   * follows the result set of the cursor, including `sort`, `skip` and `limit`:
+   * documents, that enter or leave it, are reported as `added` or `removed`.
+   * With any of `addedAt`, `changedAt`, `movedTo` or `removedAt`, the observer
+   * reports the positions, too. Within a computation, it stops once that is invalidated.
    * @param callbacks {object}
+   * @returns {object} a handle to `stop()` the observer
    * @see https://docs.meteor.com/api/collections.html#Mongo-Cursor-observe
    */
   observe(callbacks: ObserveCallbacks<T>) {
-    return _registerObserver(
-      this._collection._collection.name,
-      this,
+    const { addedAt, changedAt, movedTo, removedAt } = callbacks;
+    const ordered = !!(addedAt || changedAt || movedTo || removedAt);
+    return _observe(this, callbacks, ordered);
+  }
+
+  /**
+   * Reports the documents of the result set and their changes as field diffs.
+   * `added` is invoked for the current documents right away, unless `_suppress_initial`
+   * is set. Within a computation, it stops once that is invalidated. `changed` receives
+   * only the changed fields, removed ones as `undefined`, and is not invoked,
+   * if none of the projected fields changed. Transforms are not applied.
+   * With `addedBefore` or `movedBefore`, the positions in the ordered result set are reported.
+   * @param callbacks {object}
+   * @param callbacks.added {function=} invoked with `(id, fields)`
+   * @param callbacks.addedBefore {function=} invoked with `(id, fields, before)`,
+   *   the _id of the following document or `null`
+   * @param callbacks.changed {function=} invoked with `(id, fields)`
+   * @param callbacks.movedBefore {function=} invoked with `(id, before)`
+   * @param callbacks.removed {function=} invoked with `(id)`
+   * @returns {object} a handle to `stop()` the observer
+   * @see https://docs.meteor.com/api/collections.html#Mongo-Cursor-observeChanges
+   */
+  observeChanges(callbacks: ObserveChangesCallbacks) {
+    const query = new LiveQuery(
+      this._collection._collection,
+      this._selector,
+      this._options,
       callbacks
     );
+    return stopOnInvalidate({ stop: () => query.stop() });
   }
 }
 
@@ -226,15 +670,33 @@ export class Collection<TDoc = any> {
    *  Documents will be passed through this function before being returned from fetch or findOne,
    *  and before being passed to callbacks of observe, map, forEach, allow, and deny.
    *  Transforms are not applied for the callbacks of observeChanges or to cursors returned from publish functions.
+   * @param options.connection {Connection=}
+   *  The connection, returned by `Meteor.connectTo`, whose documents the collection holds.
+   *  Defaults to the connection of `Meteor.connect`.
+   * @param options.persist {boolean|object=}
+   *  Write the documents to a storage and rehydrate them on the next start, before the connection is established.
+   *  Pass `{ storage }` to use another storage adapter than the `collectionStorage` or `KeyStorage` option of `Meteor.connect`.
    */
   _collection!: MinimongoCollection<TDoc>;
   _name!: string;
   _transform: ((doc: TDoc) => TDoc) | null = null;
+  _connection: { db: any; call: Function } | null = null;
 
   constructor(
     name: string | null,
-    options: { transform?: (doc: TDoc) => TDoc } = {}
+    options: {
+      transform?: (doc: TDoc) => TDoc;
+      connection?: { db: any; call: Function };
+      persist?: boolean | PersistOptions;
+    } = {}
   ) {
+    const db = options.connection ? options.connection.db : Data.db;
+    if (options.persist && (name === null || options.connection)) {
+      throw new Error(
+        'Only named collections of the default connection can be persisted'
+      );
+    }
+
     if (name === null) {
       this.localCollection = true;
       name = Random.id();
@@ -252,17 +714,29 @@ export class Collection<TDoc = any> {
       );
     }
 
-    if (!Data.db[name]) Data.db.addCollection(name);
+    if (!db[name]) db.addCollection(name);
 
-    this._collection = Data.db[name] as MinimongoCollection<TDoc>;
+    this._collection = db[name] as MinimongoCollection<TDoc>;
     this._name = name;
     this._transform = wrapTransform(options.transform as any) as any;
+    this._connection = options.connection ?? null;
+
+    if (!this.localCollection && !this._connection) {
+      defineMutationStubs(name);
+    }
+
+    if (options.persist) {
+      persistCollection(
+        name,
+        typeof options.persist === 'object' ? options.persist : {}
+      );
+    }
   }
 
   /**
    * Find the documents in a collection that match the selector.
-   * If called in useTracker it automatically invokes a new Tracker.Computation
-   * // TODO add reactive flag to options to disable reactivity for this call
+   * If called in useTracker it automatically invokes a new Tracker.Computation,
+   * once the result changes, unless `reactive` is false
    * // TODO evaluate if hint: { $natural } can be implemented for backward search
    *
    * @param selector {string|object=}
@@ -273,11 +747,27 @@ export class Collection<TDoc = any> {
    * @param options.limit {number=}
    * @param options.skip {number=}
    * @param options.fields {object=}
+   * @param options.reactive {boolean=} false to not rerun the computation, defaults to true
+   * @param options.throttleMs {number=} reruns the computation at most once in this interval
+   * @param options.debounceMs {number=} reruns the computation, once there were no changes
+   *     for this long, e.g. during the initial sync of a large subscription
    * @returns {Cursor}
    */
-  find(selector?: string | Record<string, any>, options?: any): Cursor<TDoc> {
+  find(
+    selector?: string | Record<string, any>,
+    findOptions?: any
+  ): Cursor<TDoc> {
     let result;
     let docs: TDoc[] | undefined;
+    let skipped: Set<string> | undefined;
+    const {
+      reactive = true,
+      throttleMs,
+      debounceMs,
+      ...queryOptions
+    } = findOptions ?? {};
+    const options = findOptions && queryOptions;
+    const tracked = reactive && Tracker.active && Tracker.currentComputation;
 
     if (typeof selector == 'string') {
       if (options) {
@@ -287,46 +777,67 @@ export class Collection<TDoc = any> {
       }
 
       if (docs) docs = [docs];
+    } else if (tracked && options?.skip) {
+      // the skipped documents are kept, to detect changes before the window
+      const { skip, limit, ...rest } = options;
+      const all = this._collection.find(selector as any, {
+        ...rest,
+        ...(limit && { limit: skip + limit }),
+      });
+      skipped = new Set(all.slice(0, skip).map((doc: any) => doc._id));
+      docs = all.slice(skip);
     } else {
       docs = this._collection.find(selector as any, options);
     }
     result = new Cursor<TDoc>(
       this,
       docs || [],
-      typeof selector == 'string' ? { _id: selector } : selector
+      typeof selector == 'string' ? { _id: selector } : selector,
+      options
     );
 
     // If this is being called within a use tracker
-    // make the tracker computation to say if this
-    // collection is changed it needs to be re-run
-    if (Tracker.active && Tracker.currentComputation) {
+    // make the tracker computation to say if the
+    // result of this cursor changes it needs to be re-run
+    if (tracked) {
       let id = (Tracker.currentComputation as any)._id;
-      observersByComp[this._name] =
-        observersByComp[this._name] || Object.create(null);
-      if (!observersByComp[this._name][id]) {
+      if (!observersByComp.has(this._collection)) {
+        observersByComp.set(this._collection, Object.create(null));
+      }
+      const byComp = observersByComp.get(this._collection);
+      if (!byComp[id]) {
         let item = {
           computation: Tracker.currentComputation,
           callbacks: [],
         };
-        observersByComp[this._name][id] = item;
+        byComp[id] = item;
       }
 
-      let item = observersByComp[this._name][id];
+      let item = byComp[id];
+      let timer: ReturnType<typeof setTimeout> | null = null;
 
       item.callbacks.push({
         cursor: result,
-        callback: (newVal: any, old: any) => {
-          if (old && EJSON.equals(newVal, old)) {
+        callback: (docId: string) => {
+          // a throttled rerun is pending already
+          if (timer && !debounceMs) return;
+          if (!resultChanged(this._collection, result, docId, skipped)) return;
+          if (!throttleMs && !debounceMs) {
+            item.computation.invalidate();
             return;
           }
-
-          item.computation.invalidate();
+          if (timer) clearTimeout(timer);
+          timer = setTimeout(() => {
+            timer = null;
+            item.computation.invalidate();
+          }, debounceMs || throttleMs);
         },
       });
 
       Tracker.onInvalidate(() => {
-        if (observersByComp[this._name][id]) {
-          delete observersByComp[this._name][id];
+        if (timer) clearTimeout(timer);
+        if (byComp[id]) {
+          delete byComp[id];
         }
       });
     }
@@ -344,7 +855,11 @@ export class Collection<TDoc = any> {
     selector?: string | Record<string, any>,
     options?: any
   ): TDoc | undefined {
-    let result = this.find(selector, options);
+    // only the first document matters to the computation, if any
+    let result = this.find(
+      selector,
+      typeof selector == 'string' ? options : { ...options, limit: 1 }
+    );
 
     if (result) {
       result = result.fetch()[0];
@@ -353,6 +868,207 @@ export class Collection<TDoc = any> {
     return result as any;
   }
 
+  /**
+   * Inserts a document. The document is added to the local store right away
+   * and removed again, if the server rejects the insert.
+   * @param doc {object} the document, its `_id` is generated, if missing
+   * @param callback {function=} invoked with `(err, _id)`, once the server inserted it
+   * @returns {string} the `_id` of the document
+   */
+  insert(doc: TDoc, callback?: MethodCallback<string>): string {
+    if (!isPlainObject(doc)) throw new Error('Invalid document');
+    const _id =
+      (doc as any)._id ?? randomStream(`/collection/${this._name}`).id();
+    const document = { ...doc, _id };
+    if (this.localCollection) {
+      this._writeLocally(
+        () => insertDocument(this._name, document, this._db()),
+        callback
+      );
+    } else {
+      this._callMutator('insert', [document], callback, () => _id);
+    }
+    return _id;
+  }
+
+  /**
+   * Modifies the matching documents. On server-backed collections, only a
+   * single document can be selected by its `_id`, as in Meteor's client.
+   * The change is applied locally right away and rolled back, if the server rejects it.
+   * @param selector {string|object} the `_id` or the query of the documents
+   * @param modifier {object} the update operators or the replacement document
+   * @param options {object=}
+   * @param options.multi {boolean=} modify all matching documents, not just the first one
+   * @param options.upsert {boolean=} insert a document, if none matches
+   * @param callback {function=} invoked with `(err, numberAffected)`
+   * @returns {number} the number of affected documents
+   */
+  update(
+    selector: string | Record<string, any>,
+    modifier: Record<string, any>,
+    options?: { multi?: boolean; upsert?: boolean } | MethodCallback<number>,
+    callback?: MethodCallback<number>
+  ): number {
+    if (typeof options === 'function') {
+      callback = options;
+      options = {};
+    }
+    return this._update(
+      selector,
+      modifier,
+      options ?? {},
+      callback && ((err, result) => callback(err, result?.numberAffected))
+    )?.numberAffected;
+  }
+
+  /**
+   * Modifies the first matching document or inserts one, if none matches
+   * @param selector {string|object} the `_id` or the query of the document
+   * @param modifier {object} the update operators or the replacement document
+   * @param options {object=}
+   * @param options.multi {boolean=} modify all matching documents, not just the first one
+   * @param callback {function=} invoked with `(err, result)`
+   * @returns {object} the `numberAffected` and the `insertedId`, if a document has been inserted
+   */
+  upsert(
+    selector: string | Record<string, any>,
+    modifier: Record<string, any>,
+    options?: { multi?: boolean } | MethodCallback<any>,
+    callback?: MethodCallback<any>
+  ): { numberAffected: number; insertedId?: string } {
+    if (typeof options === 'function') {
+      callback = options;
+      options = {};
+    }
+    return this._update(
+      selector,
+      modifier,
+      { ...options, upsert: true },
+      callback
+    );
+  }
+
+  /**
+   * Removes the matching documents. On server-backed collections, only a
+   * single document can be selected by its `_id`, as in Meteor's client.
+   * The documents are removed locally right away and restored, if the server rejects it.
+   * @param selector {string|object} the `_id` or the query of the documents
+   * @param callback {function=} invoked with `(err, numberRemoved)`
+   * @returns {number} the number of removed documents
+   */
+  remove(
+    selector: string | Record<string, any>,
+    callback?: MethodCallback<number>
+  ): number {
+    if (this.localCollection) {
+      return this._writeLocally(
+        () => removeDocuments(this._name, selector, this._db()),
+        callback
+      );
+    }
+    this._requireIdSelector(selector, 'remove');
+    const matches = this._collection.find(toQuery(selector)).length;
+    this._callMutator('remove', [selector], callback);
+    return matches;
+  }
+
+  /**
+   * Updates or upserts, the callback receives the `numberAffected` and `insertedId`
+   * @private
+   */
+  _update(selector: any, modifier: any, options: any, callback?: Function) {
+    if (this.localCollection) {
+      return this._writeLocally(
+        () =>
+          updateDocuments(this._name, selector, modifier, options, this._db()),
+        callback
+      );
+    }
+    this._requireIdSelector(selector, 'update');
+    const exists = !!this._collection.findOne(toQuery(selector));
+    const upsertId =
+      options.upsert && !exists
+        ? toQuery(selector)._id ??
+          randomStream(`/collection/${this._name}`).id()
+        : undefined;
+    const methodOptions = { ...options };
+    if (upsertId) methodOptions.insertedId = upsertId;
+    const toResult = (numberAffected) =>
+      isPlainObject(numberAffected)
+        ? numberAffected
+        : { numberAffected, ...(upsertId && { insertedId: upsertId }) };
+    this._callMutator(
+      'update',
+      [selector, modifier, methodOptions],
+      callback,
+      toResult
+    );
+    return toResult(exists || upsertId ? 1 : 0);
+  }
+
+  /**
+   * Writes to a local collection, which completes right away
+   * @private
+   */
+  _writeLocally(write: () => any, callback?: Function) {
+    let result;
+    try {
+      result = write();
+    } catch (e) {
+      if (!callback) throw e;
+      callback(e);
+      return undefined;
+    }
+    callback?.(undefined, result);
+    return result;
+  }
+
+  /**
+   * Calls the mutation method of the server. On the default connection,
+   * its stub applies the change to the local store right away.
+   * Stubs don't run for `Meteor.connectTo` connections, so their
+   * collections receive the change from the server only.
+   * @private
+   */
+  _callMutator(
+    method: string,
+    args: any[],
+    callback?: Function,
+    toResult: (result: any) => any = (result) => result
+  ) {
+    const name = `/${this._name}/${method}`;
+    const send = this._connection
+      ? this._connection.call.bind(this._connection)
+      : call;
+    send(name, ...args, (err, result) => {
+      if (err) {
+        const error = toMethodError(err);
+        if (callback) callback(error);
+        else console.error(`Error in ${name}`, error);
+        return;
+      }
+      callback?.(undefined, toResult(result));
+    });
+  }
+
+  /**
+   * Throws, unless the selector selects a single document by its `_id`,
+   * which is all that untrusted code may modify
+   * @private
+   */
+  _requireIdSelector(selector: any, operation: string) {
+    if (isIdSelector(selector)) return;
+    throw toMethodError({
+      error: 403,
+      reason: `Not permitted. Untrusted code may only ${operation} documents by ID.`,
+    });
+  }
+
+  /** @private */
+  _db() {
+    return this._connection ? this._connection.db : Data.db;
+  }
+
   /**
    * Define helpers for documents. This is basically an implementation of
    * `dburles:mongo-collection-helpers`
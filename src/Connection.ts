@@ -0,0 +1,263 @@
+import Minimongo from '@meteorrn/minimongo';
+import Tracker from './Tracker';
+import DDP, { type ConnectionStatus } from '../lib/ddp';
+import type { BackoffOptions } from '../lib/scheduler';
+import type { TransportConstructor } from '../lib/transport';
+import { createSockJSTransport, type SockJSOptions } from '../lib/sockjs';
+import { batchedUpdates } from '../helpers/reactNativeBindings';
+import type { MethodCall } from './Data';
+import { applyAdded, applyChanged, applyRemoved } from './Collection';
+import Reconciliation from './Reconciliation';
+import {
+  createMethodCaller,
+  completeReceivedCalls,
+  failPendingCalls,
+  receiveResult,
+  receiveUpdated,
+} from './Call';
+import {
+  subscribe,
+  subscriptionsReady,
+  subscriptionStopped,
+  type SubscribeArgs,
+  type SubscriptionHandle,
+} from './Subscription';
+
+/**
+ * Options of {Meteor.connectTo}
+ */
+export type ConnectionOptions = {
+  suppressUrlErrors?: boolean;
+  autoConnect?: boolean;
+  autoReconnect?: boolean;
+  reconnectInterval?: number;
+  backoff?: BackoffOptions;
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+  waitForUpdated?: boolean;
+  SocketConstructor?: TransportConstructor;
+  transport?: 'websocket' | 'sockjs';
+  sockjs?: SockJSOptions;
+};
+
+/**
+ * Throws, if the endpoint is neither a websocket nor a http(s) url,
+ * unless `suppressUrlErrors` is set
+ * @private
+ * @param endpoint {string}
+ * @param options {object}
+ */
+export function assertEndpoint(
+  endpoint: string,
+  options: { suppressUrlErrors?: boolean }
+) {
+  if (
+    !/^https?:\/\//.test(endpoint) &&
+    (!endpoint.startsWith('ws') || !endpoint.endsWith('/websocket')) &&
+    !options.suppressUrlErrors
+  ) {
+    throw new Error(
+      `Your url "${endpoint}" may be in the wrong format. It should start with "ws://" or "wss://" and end with "/websocket", e.g. "wss://myapp.meteor.com/websocket", or start with "http://" or "https://", e.g. "https://myapp.meteor.com". To disable this warning, connect with option "suppressUrlErrors" as true, e.g. Meteor.connect("${endpoint}", {suppressUrlErrors:true});`
+    );
+  }
+}
+
+/**
+ * Chooses the endpoint and transport for DDP: SockJS with the `transport: 'sockjs'`
+ * option, otherwise a websocket, also for http(s) endpoints
+ * @private
+ * @param endpoint {string}
+ * @param options {object}
+ * @returns {object} the `endpoint` and `SocketConstructor` options of {DDP}
+ */
+export function resolveTransport(
+  endpoint: string,
+  options: Pick<ConnectionOptions, 'SocketConstructor' | 'transport' | 'sockjs'>
+): { endpoint: string; SocketConstructor: TransportConstructor } {
+  if (options.transport === 'sockjs') {
+    return {
+      endpoint,
+      SocketConstructor:
+        options.SocketConstructor ?? createSockJSTransport(options.sockjs),
+    };
+  }
+  const match = endpoint.match(/^http(s?):\/\/(.*?)\/?$/);
+  return {
+    endpoint: match ? `ws${match[1]}://${match[2]}/websocket` : endpoint,
+    SocketConstructor: options.SocketConstructor ?? (WebSocket as any),
+  };
+}
+
+/**
+ * An additional connection to another Meteor server, returned by {Meteor.connectTo}.
+ * It has its own method calls, subscriptions and Minimongo db; collections are bound
+ * to it with the `connection` option of {Mongo.Collection}.
+ * Accounts, method stubs and persisted methods remain bound to `Meteor.connect`.
+ * @class
+ */
+export default class Connection {
+  endpoint: string;
+  ddp: DDP;
+  db: any;
+  calls: MethodCall[];
+  subscriptions: Record<string, any>;
+  call: ReturnType<typeof createMethodCaller>['call'];
+  apply: ReturnType<typeof createMethodCaller>['apply'];
+  callAsync: ReturnType<typeof createMethodCaller>['callAsync'];
+  private removing: Record<string, boolean>;
+  private statusDeps: any;
+
+  /**
+   * @constructor
+   * @param endpoint {string} required, websocket or http(s) url of the Meteor server to connect with
+   * @param options {object=} optional options, like the DDP options of {Meteor.connect}:
+   *   `autoConnect`, `autoReconnect`, `reconnectInterval`, `backoff`, `heartbeatInterval`,
+   *   `heartbeatTimeout`, `waitForUpdated`, `suppressUrlErrors`, `SocketConstructor`,
+   *   `transport` and `sockjs`
+   */
+  constructor(endpoint: string, options: ConnectionOptions = {}) {
+    assertEndpoint(endpoint, options);
+
+    this.endpoint = endpoint;
+    this.calls = [];
+    this.subscriptions = {};
+    this.removing = {};
+    this.statusDeps = new Tracker.Dependency();
+    this.db = new (Minimongo as any)();
+    this.db.debug = false;
+    this.db.batchedUpdates = batchedUpdates;
+
+    const { call, apply, callAsync } = createMethodCaller(this);
+    this.call = call;
+    this.apply = apply;
+    this.callAsync = callAsync;
+
+    this.ddp = new DDP({
+      ...options,
+      ...resolveTransport(endpoint, options),
+    });
+    this.attach(options.waitForUpdated !== false);
+  }
+
+  /**
+   * Subscribes to a publication of this connection's server, see {Meteor.subscribe}
+   * @param name {string} name of the publication
+   * @param args {...array} the publication arguments, optionally followed by
+   *   an `onReady` callback, the callbacks object or an AbortSignal
+   * @returns {SubscriptionHandle}
+   */
+  subscribe<Name extends string>(
+    name: Name,
+    ...args: SubscribeArgs<Name>
+  ): SubscriptionHandle {
+    return subscribe(this, name, args);
+  }
+
+  /**
+   * Reactive status of this connection, see {Meteor.status}
+   * @returns {ConnectionStatus}
+   */
+  status(): ConnectionStatus {
+    this.statusDeps.depend();
+    return { ...this.ddp.connectionStatus };
+  }
+
+  /**
+   * Connects again, e.g. after {disconnect}
+   */
+  reconnect() {
+    this.ddp.autoReconnect = true;
+    this.ddp.connect();
+  }
+
+  /**
+   * Closes the connection, without reconnecting
+   */
+  disconnect() {
+    this.ddp.disconnect();
+  }
+
+  /** @private */
+  private attach(waitForUpdated: boolean) {
+    const ddp = this.ddp;
+    const reconciliation = new Reconciliation(this.db);
+    const finishReconciliation = () => {
+      const subs = Object.values(this.subscriptions);
+      // the documents are kept, until there are subscriptions to replace them
+      if (subs.length === 0) return;
+      if (subs.every((sub) => sub.ready)) reconciliation.finish();
+    };
+
+    ddp.on('status', () => this.statusDeps.changed());
+
+    ddp.on('connected', ({ sessionReused }) => {
+      if (sessionReused) {
+        reconciliation.finish();
+        Object.values(this.subscriptions).forEach((sub) => {
+          if (!sub.wasReady) return;
+          sub.ready = true;
+          sub.readyDeps.changed();
+        });
+        return;
+      }
+      // a new session publishes all documents again,
+      // which replace the current ones, once the subscriptions are ready
+      reconciliation.start();
+      finishReconciliation();
+    });
+
+    ddp.on('disconnected', () => {
+      if (ddp.autoReconnect) {
+        // calls, whose result arrived, won't receive their `updated` message,
+        // the methods of the others are sent again, once reconnected
+        completeReceivedCalls(this.calls);
+      } else {
+        // fail pending calls, instead of letting them hang without a reconnect
+        failPendingCalls(this.calls);
+        ddp.clearPendingMethods();
+      }
+      Object.values(this.subscriptions).forEach((sub) => {
+        sub.wasReady = !!sub.ready;
+        sub.ready = false;
+        sub.readyDeps.changed();
+      });
+    });
+
+    ddp.on('added', (message: any) => {
+      if (reconciliation.buffer(message)) return;
+      applyAdded(message.collection, message.id, message.fields, this.db);
+    });
+    ddp.on('changed', (message: any) => {
+      if (reconciliation.buffer(message)) return;
+      applyChanged(
+        message.collection,
+        message.id,
+        message.fields,
+        message.cleared,
+        this.db
+      );
+    });
+    ddp.on('removed', (message: any) => {
+      if (reconciliation.buffer(message)) return;
+      applyRemoved(message.collection, message.id, this.db);
+    });
+
+    ddp.on('result', (message: any) => {
+      receiveResult(this.calls, message, waitForUpdated);
+    });
+    ddp.on('updated', (message: any) => {
+      (message.methods || []).forEach((id: string) =>
+        receiveUpdated(this.calls, id)
+      );
+    });
+
+    ddp.on('ready', (message: any) => {
+      subscriptionsReady(this.subscriptions, message.subs);
+      finishReconciliation();
+    });
+    ddp.on('nosub', (message: any) => {
+      subscriptionStopped(this.subscriptions, this.removing, message);
+      finishReconciliation();
+    });
+  }
+}
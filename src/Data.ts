@@ -5,6 +5,7 @@ import {
   runAfterInteractions,
 } from '../helpers/reactNativeBindings';
 import type DDP from '../lib/ddp';
+import type { ResolvePersistedMethod } from './PersistentMethods';
 
 export type KeyStorage = {
   getItem(key: string): Promise<string | null>;
@@ -14,6 +15,17 @@ export type KeyStorage = {
 
 export type LoggerPayload = object | string;
 
+export type MethodCall = {
+  id: string;
+  callback?: (err?: unknown, result?: unknown) => void;
+  onResultReceived?: (err?: unknown, result?: unknown) => void;
+  timeoutId?: ReturnType<typeof setTimeout>;
+  /** the `result` message, kept until the `updated` message arrives */
+  resultMessage?: { error?: unknown; result?: unknown };
+  /** true once the server reported the method's writes via `updated` */
+  dataVisible?: boolean;
+};
+
 export type ConnectOptions = {
   KeyStorage: KeyStorage;
   suppressUrlErrors?: boolean;
@@ -26,6 +38,10 @@ export type ConnectOptions = {
   reconnectInterval?: number;
   isPrivate?: boolean;
   deferReplayUntilLogin?: boolean;
+  waitForUpdated?: boolean;
+  persistMethods?: boolean;
+  resolvePersistedMethod?: ResolvePersistedMethod;
+  collectionStorage?: KeyStorage;
 };
 
 /**
@@ -95,10 +111,7 @@ const Data = {
   /**
    * @private
    */
-  calls: [] as {
-    id: string;
-    callback?: (err?: unknown, result?: unknown) => void;
-  }[],
+  calls: [] as MethodCall[],
 
   /**
    * Returns the base-url of our connection-endpoint,
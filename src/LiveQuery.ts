@@ -0,0 +1,309 @@
+import EJSON from 'ejson';
+
+type Fields = Record<string, any>;
+
+/**
+ * Callbacks of {Cursor.observeChanges}
+ */
+export type ObserveChangesCallbacks = {
+  /** a document entered the result set, with all of its (projected) fields */
+  added?: (id: string, fields: Fields) => void;
+  /** fields of a document changed, removed fields are `undefined` */
+  changed?: (id: string, fields: Fields) => void;
+  /** a document left the result set */
+  removed?: (id: string) => void;
+  /** like `added`, with the _id of the following document or `null`, if it is the last one */
+  addedBefore?: (id: string, fields: Fields, before: string | null) => void;
+  /** a document moved in front of the given one, or to the end, if `null` */
+  movedBefore?: (id: string, before: string | null) => void;
+  /** skips `added` and `addedBefore` for the documents, that are already in the result set */
+  _suppress_initial?: boolean;
+};
+
+/**
+ * Options of the cursor, that determine the result set
+ */
+export type LiveQueryOptions = {
+  fields?: Fields;
+  sort?: any;
+  skip?: number;
+  limit?: number;
+};
+
+/**
+ * Live queries by Minimongo collection
+ * @private
+ */
+const liveQueries = new Map<any, Set<LiveQuery>>();
+
+/**
+ * Updates the live queries of the collection, once a document has been
+ * added, changed or removed
+ * @private
+ * @param localCollection {object} the Minimongo collection
+ * @param id {string} the _id of the document
+ */
+export function notifyLiveQueries(localCollection: any, id: string) {
+  const queries = liveQueries.get(localCollection);
+  if (!queries) return;
+  // callbacks may stop queries, so iterate over a copy
+  Array.from(queries).forEach((query) => query.documentChanged(id));
+}
+
+/** @private */
+const toFields = ({ _id, _version, ...fields }: any): Fields => fields;
+
+/**
+ * Returns the fields, that differ between both versions of a document,
+ * removed fields as `undefined`
+ * @private
+ * @param oldFields {object}
+ * @param newFields {object}
+ * @returns {object}
+ */
+export function changedFields(oldFields: Fields, newFields: Fields): Fields {
+  const fields: Fields = {};
+  Object.keys(newFields).forEach((key) => {
+    if (!EJSON.equals(oldFields[key], newFields[key])) {
+      fields[key] = EJSON.clone(newFields[key]);
+    }
+  });
+  Object.keys(oldFields).forEach((key) => {
+    if (!(key in newFields)) fields[key] = undefined;
+  });
+  return fields;
+}
+
+/**
+ * Returns the indices of a longest increasing subsequence
+ * @private
+ */
+function longestIncreasingSubsequence(values: number[]): number[] {
+  // tails[k]: index of the smallest tail of all increasing subsequences of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]!]! < value) low = middle + 1;
+      else high = middle;
+    }
+    previous[i] = low > 0 ? tails[low - 1]! : -1;
+    tails[low] = i;
+  });
+  const result: number[] = [];
+  let i = tails.length ? tails[tails.length - 1]! : -1;
+  while (i !== -1) {
+    result.unshift(i);
+    i = previous[i]!;
+  }
+  return result;
+}
+
+/**
+ * Keeps the result set of a cursor up to date and reports,
+ * which documents entered or left it and which fields changed.
+ * Ordered queries report the positions, too.
+ * @private
+ */
+export default class LiveQuery {
+  private collection: any;
+  private selector: any;
+  private options: LiveQueryOptions;
+  private callbacks: ObserveChangesCallbacks;
+  private ordered: boolean;
+  /** the (projected) fields of the documents in the result set */
+  private docs: Map<string, Fields>;
+  /** the _ids of the result set in order, if ordered */
+  private order: string[];
+  private stopped: boolean;
+
+  constructor(
+    collection: any,
+    selector: any,
+    options: LiveQueryOptions | undefined,
+    callbacks: ObserveChangesCallbacks,
+    ordered = !!(callbacks.addedBefore || callbacks.movedBefore)
+  ) {
+    const { fields, sort, skip, limit } = options ?? {};
+    this.collection = collection;
+    this.selector = selector;
+    this.options = {
+      ...(fields && { fields }),
+      ...(sort && { sort }),
+      ...(skip && { skip }),
+      ...(limit && { limit }),
+    };
+    this.callbacks = callbacks;
+    this.ordered = ordered;
+    this.docs = new Map();
+    this.order = [];
+    this.stopped = false;
+
+    this.fetch().forEach((doc: any) => {
+      this.docs.set(doc._id, toFields(doc));
+      this.order.push(doc._id);
+    });
+    if (!liveQueries.has(collection)) liveQueries.set(collection, new Set());
+    liveQueries.get(collection)!.add(this);
+
+    if (callbacks._suppress_initial) return;
+    this.order.forEach((id) => {
+      this.emitAdded(id, this.docs.get(id)!, null);
+    });
+  }
+
+  /**
+   * Stops reporting changes
+   */
+  stop() {
+    this.stopped = true;
+    const queries = liveQueries.get(this.collection);
+    if (!queries) return;
+    queries.delete(this);
+    if (queries.size === 0) liveQueries.delete(this.collection);
+  }
+
+  /**
+   * Compares the current version of the document with the known one
+   * @param id {string} the _id of the document
+   */
+  documentChanged(id: string) {
+    if (this.stopped) return;
+    const query = this.selector
+      ? { $and: [{ _id: id }, this.selector] }
+      : { _id: id };
+    const { fields } = this.options;
+    const doc = this.collection.findOne(query, fields ? { fields } : {});
+    const previous = this.docs.get(id);
+    if (!doc && !previous) return;
+
+    // the position or the window of the result set may have changed
+    if (this.ordered || this.options.skip || this.options.limit) {
+      this.refresh();
+      return;
+    }
+
+    if (!doc) {
+      this.docs.delete(id);
+      this.emit('removed', id);
+      return;
+    }
+
+    const current = toFields(doc);
+    this.docs.set(id, current);
+    if (!previous) {
+      this.emitAdded(id, current, null);
+      return;
+    }
+    this.emitChanged(id, previous, current);
+  }
+
+  /** @private */
+  private fetch(): any[] {
+    return this.collection.find(this.selector ?? {}, this.options);
+  }
+
+  /**
+   * Runs the query again and reports the differences to the known result set
+   * @private
+   */
+  private refresh() {
+    const results = this.fetch();
+    const next = new Map<string, Fields>();
+    results.forEach((doc: any) => next.set(doc._id, toFields(doc)));
+
+    this.order.slice().forEach((id) => {
+      if (next.has(id)) return;
+      this.docs.delete(id);
+      this.order.splice(this.order.indexOf(id), 1);
+      this.emit('removed', id);
+    });
+
+    const nextOrder: string[] = results.map((doc: any) => doc._id);
+    if (!this.ordered) {
+      nextOrder.forEach((id) => this.update(id, next.get(id)!, null));
+      this.order = nextOrder;
+      return;
+    }
+
+    // the documents of the longest common subsequence keep their places,
+    // the others are added or moved in front of the next one of them
+    const oldIndex = new Map(this.order.map((id, i) => [id, i]));
+    const kept = nextOrder.filter((id) => oldIndex.has(id));
+    const unmoved = new Set(
+      longestIncreasingSubsequence(kept.map((id) => oldIndex.get(id)!)).map(
+        (i) => kept[i]
+      )
+    );
+    const anchors: (string | null)[] = [];
+    let anchor: string | null = null;
+    for (let i = nextOrder.length - 1; i >= 0; i--) {
+      anchors[i] = anchor;
+      if (unmoved.has(nextOrder[i]!)) anchor = nextOrder[i]!;
+    }
+
+    nextOrder.forEach((id, i) => {
+      const before = anchors[i]!;
+      if (this.docs.has(id) && !unmoved.has(id)) {
+        this.order.splice(this.order.indexOf(id), 1);
+        this.insertBefore(id, before);
+        this.emit('movedBefore', id, before);
+      }
+      this.update(id, next.get(id)!, before);
+    });
+  }
+
+  /**
+   * Adds the document, or reports its changed fields
+   * @private
+   */
+  private update(id: string, current: Fields, before: string | null) {
+    const previous = this.docs.get(id);
+    this.docs.set(id, current);
+    if (!previous) {
+      if (this.ordered) this.insertBefore(id, before);
+      this.emitAdded(id, current, before);
+    } else {
+      this.emitChanged(id, previous, current);
+    }
+  }
+
+  /** @private */
+  private insertBefore(id: string, before: string | null) {
+    const index = before === null ? -1 : this.order.indexOf(before);
+    if (index === -1) this.order.push(id);
+    else this.order.splice(index, 0, id);
+  }
+
+  /** @private */
+  private emitAdded(id: string, fields: Fields, before: string | null) {
+    if (this.ordered && this.callbacks.addedBefore) {
+      this.emit('addedBefore', id, EJSON.clone(fields), before);
+    } else {
+      this.emit('added', id, EJSON.clone(fields));
+    }
+  }
+
+  /** @private */
+  private emitChanged(id: string, previous: Fields, current: Fields) {
+    const changed = changedFields(previous, current);
+    if (Object.keys(changed).length) this.emit('changed', id, changed);
+  }
+
+  /** @private */
+  private emit(
+    name: Exclude<keyof ObserveChangesCallbacks, '_suppress_initial'>,
+    ...args: any[]
+  ) {
+    const callback = this.callbacks[name] as Function | undefined;
+    if (!callback) return;
+    try {
+      callback(...args);
+    } catch (e) {
+      console.error('Error in observeChanges callback', e);
+    }
+  }
+}
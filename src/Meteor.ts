@@ -1,12 +1,54 @@
 import Tracker from './Tracker';
 import EJSON from 'ejson';
-import DDP from '../lib/ddp';
+import DDP, { type ConnectionStatus } from '../lib/ddp';
 import Random from '../lib/Random';
 
 import Data, { type LoggerPayload } from './Data';
 import Mongo from './Mongo';
-import { Collection, getObservers, localCollections } from './Collection';
-import call from './Call';
+import {
+  Collection,
+  applyAdded,
+  applyChanged,
+  applyRemoved,
+  localCollections,
+} from './Collection';
+import call, {
+  apply,
+  callAsync,
+  completeReceivedCalls,
+  failPendingCalls,
+  receiveResult,
+  receiveUpdated,
+} from './Call';
+import {
+  subscribe,
+  subscriptionsReady,
+  subscriptionStopped,
+  type SubscribeArgs,
+  type SubscriptionHandle,
+} from './Subscription';
+import Connection, {
+  assertEndpoint,
+  resolveTransport,
+  type ConnectionOptions,
+} from './Connection';
+import {
+  bufferServerMessage,
+  methodDataUpdated,
+  methods,
+  rollbackStubWrites,
+} from './MethodStubs';
+import {
+  getPersistedMethods,
+  loadPersistedMethods,
+  replayPersistedMethods,
+} from './PersistentMethods';
+import {
+  hasPersistedCollections,
+  loadPersistedCollections,
+  savePersistedCollections,
+} from './PersistentCollections';
+import Reconciliation from './Reconciliation';
 import Vent from './vent/Vent';
 
 import withTracker from './components/withTracker';
@@ -14,22 +56,11 @@ import useTracker from './components/useTracker';
 
 import ReactiveDict from './ReactiveDict';
 
-type DdpErrorPayload = {
-  error?: number | string;
-  reason?: string;
-  details?: any;
-};
-
-function toMeteorStyleError(
-  payload?: DdpErrorPayload | null
-): Error | undefined {
-  if (!payload) return undefined;
-  const err = new Error(payload.reason || 'Subscription failed');
-  (err as any).error = payload.error;
-  (err as any).reason = payload.reason;
-  (err as any).details = payload.details;
-  return err;
-}
+export type {
+  SubscribeArgs,
+  SubscriptionCallbacks,
+  SubscriptionHandle,
+} from './Subscription';
 
 export interface MeteorBase {
   isVerbose: boolean;
@@ -47,19 +78,25 @@ export interface MeteorBase {
   withTracker: typeof withTracker;
   useTracker: typeof useTracker;
   getData(): typeof Data;
-  status(): { connected: boolean; status: string };
+  status(): ConnectionStatus;
   removing: Record<string, boolean>;
   call: typeof call;
+  callAsync: typeof callAsync;
+  apply: typeof apply;
+  methods: typeof methods;
+  persistedMethods: typeof getPersistedMethods;
+  savePersistedCollections: typeof savePersistedCollections;
   disconnect(): void;
   _subscriptionsRestart(): void;
   waitDdpConnected: (cb: (...args: any[]) => void) => void;
   reconnect(): void;
   connect(endpoint?: string, options?: any): void;
   requireDdp(): DDP;
-  subscribe(
-    name: string,
-    ...args: any[]
-  ): { stop(): void; ready(): boolean; subscriptionId: string };
+  subscribe<Name extends string>(
+    name: Name,
+    ...args: SubscribeArgs<Name>
+  ): SubscriptionHandle;
+  connectTo(endpoint: string, options?: ConnectionOptions): Connection;
   ddp?: DDP;
   connected?: boolean;
 }
@@ -71,6 +108,12 @@ export interface MeteorBase {
  */
 type Status = 'disconnected' | 'connected' | string;
 
+/**
+ * Invalidates `Meteor.status()` whenever the connection status changes
+ * @private
+ */
+const statusDeps = new Tracker.Dependency();
+
 const Meteor: MeteorBase = {
   isVerbose: false,
   // Default logger; can be overridden via options.logger in connect
@@ -104,20 +147,26 @@ const Meteor: MeteorBase = {
   },
   /**
    * Reactive. Returns the current connection status.
-   * @returns {object} `{connected: boolean, status: string}`
+   * `status` is one of `connecting`, `connected`, `failed`, `waiting` or `offline`.
+   * While `waiting`, `retryTime` is the time of the next reconnection attempt.
+   * With the `heartbeatInterval` option, `rtt` is the last measured round-trip time in ms.
+   * @returns {object} `{connected, status, retryCount, retryTime?, reason?, code?, rtt?}`
    */
   status() {
-    return {
-      connected: !!this._reactiveDict.get('connected'),
-      status: Data.ddp ? Data.ddp.status : 'disconnected',
-      //retryCount: 0
-      //retryTime:
-      //reason:
-    };
+    statusDeps.depend();
+    if (!Data.ddp) {
+      return { connected: false, status: 'offline', retryCount: 0 };
+    }
+    return { ...Data.ddp.connectionStatus };
   },
 
   removing: {} as Record<string, boolean>,
   call: call,
+  callAsync: callAsync,
+  apply: apply,
+  methods: methods,
+  persistedMethods: getPersistedMethods,
+  savePersistedCollections: savePersistedCollections,
   disconnect() {
     if (Data.ddp) {
       Data.ddp.disconnect();
@@ -169,14 +218,33 @@ const Meteor: MeteorBase = {
   /**
    * Connect to a Meteor server using a given websocket endpoint.
    * The endpoint needs to start with `ws://` or `wss://`
-   * and has to end with `/websocket`.
+   * and has to end with `/websocket`, or it is the `http://` or `https://`
+   * url of the server, which connects to its websocket or, with the `transport: 'sockjs'`
+   * option, to its SockJS endpoint.
    *
-   * @param endpoint {string} required, websocket of Meteor server to connect with
+   * @param endpoint {string} required, websocket or http(s) url of Meteor server to connect with
    * @param options {object=} optional options
    * @param options.suppressUrlErrors {boolean=} suppress error when websocket endpoint is invalid
    * @param options.KeyStorage {KeyStorage=} suppress error when websocket endpoint is invalid
    * @param options.reachabilityUrl {string=} a URL that is used by @react-native-community/netinfo to run a connection
    *   check using a 204 request
+   * @param options.waitForUpdated {boolean=} defaults to true; delays method callbacks until the server
+   *   sent both `result` and `updated`, so the method's writes are already in Minimongo
+   * @param options.persistMethods {boolean=} save method calls with the `persist` option to the KeyStorage
+   *   and replay them after the next login, if the app restarted or disconnected before their result arrived
+   * @param options.resolvePersistedMethod {function=} receives each persisted method before it is replayed;
+   *   return the (modified) entry to replay it or `null` to drop it
+   * @param options.backoff {object=} backoff policy of reconnection attempts: `base` delay in ms
+   *   (defaults to `reconnectInterval` or 1500), `max` delay in ms (60000), `multiplier` (2)
+   *   and `jitter` (0.5, spreads each delay by ±25%)
+   * @param options.heartbeatInterval {number=} send a `ping` after this many ms without incoming messages
+   *   and reconnect, if no answer arrives within `heartbeatTimeout` ms (defaults to 15000); disabled by default
+   * @param options.SocketConstructor {TransportConstructor=} the transport to connect with, defaults to the
+   *   global `WebSocket`; see {createLoopbackTransport} for an in-memory transport
+   * @param options.transport {string=} `websocket` (default) or `sockjs`, for networks that block websockets
+   * @param options.sockjs {object=} options of the SockJS transport, see {createSockJSTransport}
+   * @param options.collectionStorage {KeyStorage=} storage of the collections with the `persist` option,
+   *   defaults to the KeyStorage; their documents are rehydrated before the connection opens
    */
   connect(endpoint?: string, options?: any) {
     if (!endpoint) endpoint = Data._endpoint;
@@ -188,14 +256,7 @@ const Meteor: MeteorBase = {
       this.logger = options.logger;
     }
 
-    if (
-      (!endpoint.startsWith('ws') || !endpoint.endsWith('/websocket')) &&
-      !options.suppressUrlErrors
-    ) {
-      throw new Error(
-        `Your url "${endpoint}" may be in the wrong format. It should start with "ws://" or "wss://" and end with "/websocket", e.g. "wss://myapp.meteor.com/websocket". To disable this warning, connect with option "suppressUrlErrors" as true, e.g. Meteor.connect("${endpoint}", {suppressUrlErrors:true});`
-      );
-    }
+    assertEndpoint(endpoint, options);
 
     if (!options.KeyStorage) {
       throw new Error(
@@ -207,6 +268,10 @@ const Meteor: MeteorBase = {
     Data._options = options;
     this._reactiveDict.set('isLoggedIn', false);
 
+    if (options.persistMethods) {
+      loadPersistedMethods();
+    }
+
     if (this.isVerbose) {
       try {
         this.logger({ event: 'connect_init', endpoint });
@@ -215,16 +280,47 @@ const Meteor: MeteorBase = {
       }
     }
 
+    const rehydrating = hasPersistedCollections()
+      ? loadPersistedCollections()
+      : null;
+
     const ddp = new DDP({
-      endpoint: endpoint,
-      SocketConstructor: WebSocket as any,
       deferReplayUntilLogin: true,
       ...options,
+      ...resolveTransport(endpoint, options),
+      ...(rehydrating && { autoConnect: false }),
     });
 
+    if (rehydrating && options.autoConnect !== false) {
+      // connect, once the persisted documents are back,
+      // so they are reconciled with the server's ones,
+      // unless `disconnect()`, which turns off reconnecting, has been called
+      const autoReconnect = ddp.autoReconnect;
+      rehydrating
+        .then(() => {
+          if (
+            Data.ddp === ddp &&
+            ddp.status === 'disconnected' &&
+            ddp.autoReconnect === autoReconnect
+          ) {
+            ddp.connect();
+          }
+        })
+        .catch((err) => {
+          // a failed connect is reported by `Meteor.status()`
+          if (this.isVerbose) {
+            console.warn('Failed to connect after rehydration', err);
+          }
+        });
+    }
+
     Data.ddp = ddp;
     this.ddp = ddp;
     Vent.attach(ddp);
+    statusDeps.changed();
+    ddp.on('status', () => {
+      if (Data.ddp === ddp) statusDeps.changed();
+    });
 
     const loadInitialUser =
       typeof (this as any)._loadInitialUser === 'function'
@@ -239,17 +335,30 @@ const Meteor: MeteorBase = {
       });
     }
 
+    // Keeps the documents of a new session until the subscriptions are ready again,
+    // local collections are not published and stub writes are reconciled on `updated`
+    const reconciliation = new Reconciliation(Data.db, {
+      isServerCollection: (name) => !localCollections.includes(name),
+      redirect: bufferServerMessage,
+    });
+    const finishReconciliation = () => {
+      const subs = Object.values(Data.subscriptions);
+      // without subscriptions, e.g. on a cold start, nothing has been sent yet,
+      // so the documents are kept until the first ones are ready
+      if (subs.length === 0) return;
+      if (subs.every((sub: any) => sub.ready)) reconciliation.finish();
+    };
+
     Data.ddp.on('connected', (info) => {
       const sessionReused = !!(info && info.sessionReused);
 
-      // Clear the collections of any stale data only if we did NOT reuse the session
-      if (!sessionReused && Data.db && Data.db.collections) {
-        for (var collection in Data.db.collections) {
-          if (!localCollections.includes(collection)) {
-            // Dont clear data from local collections
-            Data.db[collection].remove({});
-          }
-        }
+      if (sessionReused) {
+        // the server continues with the documents it has sent so far
+        reconciliation.finish();
+      } else if (Data.db && Data.db.collections) {
+        // Reconcile the collections with the new session, instead of clearing them
+        reconciliation.start();
+        finishReconciliation();
       }
 
       if (this.isVerbose) {
@@ -287,12 +396,26 @@ const Meteor: MeteorBase = {
           sub.subIdRemember = ddp.sub(sub.name, sub.params);
           sub.suppressOnStop = false;
         });
+
+        if (options.persistMethods) {
+          replayPersistedMethods();
+        }
       } else {
         this._reactiveDict.set('isLoggedIn', false);
 
-        const resumePromise = loadInitialUser
-          ? Promise.resolve(loadInitialUser())
-          : Promise.resolve();
+        // A known token logs in right away, so the replay waits for its result.
+        // A login, that was in flight, has been sent again by DDP.
+        const token = (Data as any)._tokenIdSaved;
+        const loginWithToken =
+          typeof (this as any)._loginWithToken === 'function'
+            ? (this as any)._loginWithToken.bind(this)
+            : null;
+        const resumePromise =
+          token && loginWithToken
+            ? Promise.resolve(loginWithToken(token))
+            : loadInitialUser
+            ? Promise.resolve(loadInitialUser())
+            : Promise.resolve();
 
         resumePromise.catch((err) => {
           if (this.isVerbose) {
@@ -305,7 +428,6 @@ const Meteor: MeteorBase = {
       Data.notify('change');
     });
 
-    let lastDisconnect: Date | null = null;
     // NetInfo reconnect should not fire before first disconnect when autoConnect is used.
     let netInfoReconnectAllowed = options.autoConnect === false;
     Data.ddp.on('disconnected', () => {
@@ -320,41 +442,32 @@ const Meteor: MeteorBase = {
 
       this._reactiveDict.set('isLoggedIn', false);
 
-      // Fail pending method calls so they don't hang across reconnects (e.g., login)
-      if (Data.calls.length) {
-        const pendingCalls = Data.calls.splice(0, Data.calls.length);
-        const connectionError = {
-          error: 'connection-lost',
-          reason: 'DDP disconnected',
-          message: 'DDP disconnected [connection-lost]',
-        };
-
-        pendingCalls.forEach(({ callback }) => {
-          if (typeof callback === 'function') {
-            try {
-              callback(connectionError);
-            } catch (e) {
-              try {
-                if (this.isVerbose && this.logger) {
-                  this.logger({
-                    event: 'method_callback_error_after_disconnect',
-                    error: e,
-                  });
-                } else {
-                  console.error('Error in method callback after disconnect', e);
-                }
-              } catch (_logErr) {
-                // no-op
-              }
-            }
+      const onCallbackError = (e: unknown) => {
+        try {
+          if (this.isVerbose && this.logger) {
+            this.logger({
+              event: 'method_callback_error_after_disconnect',
+              error: e,
+            });
+          } else {
+            console.error('Error in method callback after disconnect', e);
           }
-        });
-      }
-      // Also clear queued methods so they are not replayed after reconnect
-      try {
-        (Data.ddp as any)?.pendingMethods?.clear?.();
-      } catch (_err) {
-        // no-op
+        } catch (_logErr) {
+          // no-op
+        }
+      };
+      if (ddp.autoReconnect) {
+        // The methods of the other calls are sent again, once reconnected,
+        // only `noRetry` methods have been failed with `invocation-failed`
+        completeReceivedCalls(Data.calls, onCallbackError).forEach(
+          methodDataUpdated
+        );
+      } else {
+        // Fail pending method calls so they don't hang without a reconnect
+        failPendingCalls(Data.calls, onCallbackError);
+        // The failed calls will not report their writes, so revert their stubs
+        rollbackStubWrites();
+        ddp.clearPendingMethods();
       }
 
       // Mark subscriptions as ready=false
@@ -366,37 +479,12 @@ const Meteor: MeteorBase = {
       }
 
       netInfoReconnectAllowed = true;
-
-      if (!Data.ddp?.autoReconnect) return;
-
-      if (
-        !lastDisconnect ||
-        new Date().getTime() - lastDisconnect.getTime() > 3000
-      ) {
-        Data.ddp?.connect();
-      }
-
-      lastDisconnect = new Date();
     });
 
     Data.ddp.on('added', (message: any) => {
-      if (!Data.db[message.collection]) {
-        Data.db.addCollection(message.collection);
-      }
-      const document = {
-        _id: message.id,
-        ...message.fields,
-      };
-
-      Data.db[message.collection].upsert(document);
-      let observers = getObservers('added', message.collection, document);
-      observers.forEach((callback) => {
-        try {
-          callback(document, null);
-        } catch (e) {
-          console.error('Error in observe callback', e);
-        }
-      });
+      if (reconciliation.buffer(message)) return;
+      if (bufferServerMessage(message)) return;
+      applyAdded(message.collection, message.id, message.fields);
     });
 
     Data.ddp.on('error', (message) => {
@@ -416,115 +504,62 @@ const Meteor: MeteorBase = {
     });
 
     Data.ddp.on('ready', (message: any) => {
-      const idsMap = new Map<string, string>();
-      for (var i in Data.subscriptions) {
-        const sub = Data.subscriptions[i];
-        idsMap.set(sub.subIdRemember, sub.id);
-      }
-      for (var i in message.subs) {
-        const serverSubId = message.subs[i];
-        const subId = idsMap.get(serverSubId);
-        if (subId) {
-          const sub = Data.subscriptions[subId];
-
-          // Verbose debug: log which subscription became ready
-          if (this.isVerbose) {
-            try {
-              this.logger({
-                event: 'ready',
-                subId: serverSubId,
-                name: sub.name,
-                localId: sub.id,
-                // params: sub.params,
-              });
-            } catch (e) {
-              // no-op
-            }
+      subscriptionsReady(Data.subscriptions, message.subs, (sub, subId) => {
+        // Verbose debug: log which subscription became ready
+        if (this.isVerbose) {
+          try {
+            this.logger({
+              event: 'ready',
+              subId,
+              name: sub.name,
+              localId: sub.id,
+              // params: sub.params,
+            });
+          } catch (e) {
+            // no-op
           }
-
-          sub.ready = true;
-          sub.wasReady = true;
-          sub.readyDeps.changed();
-          sub.readyCallback && sub.readyCallback();
         }
-      }
+      });
+      // the server has sent all documents of the restarted subscriptions
+      finishReconciliation();
     });
 
     Data.ddp.on('changed', (message: any) => {
-      const unset: Record<string, any> = {};
-      if (message.cleared) {
-        message.cleared.forEach((field: string) => {
-          (unset as any)[field] = null;
-        });
-      }
-
-      if (Data.db[message.collection]) {
-        const partialUpdate = {
-          _id: message.id,
-          ...message.fields,
-          ...unset,
-        };
-
-        const collection = Data.db[message.collection];
-        const oldDocument = collection.findOne({ _id: message.id });
-
-        collection.upsert(partialUpdate);
-        const newDocument = collection.findOne({ _id: message.id });
-
-        let observers = getObservers(
-          'changed',
-          message.collection,
-          newDocument
-        );
-        observers.forEach((callback) => {
-          try {
-            callback(newDocument, oldDocument, message.fields);
-          } catch (e) {
-            console.error('Error in observe callback', e);
-          }
-        });
-      }
+      if (reconciliation.buffer(message)) return;
+      if (bufferServerMessage(message)) return;
+      applyChanged(
+        message.collection,
+        message.id,
+        message.fields,
+        message.cleared
+      );
     });
 
     Data.ddp.on('removed', (message: any) => {
-      if (Data.db[message.collection]) {
-        const oldDocument = Data.db[message.collection].findOne({
-          _id: message.id,
-        });
-        let observers = getObservers(
-          'removed',
-          message.collection,
-          oldDocument
-        );
-        Data.db[message.collection].del(message.id);
-        observers.forEach((callback) => {
-          try {
-            callback(message.id, oldDocument);
-          } catch (e) {
-            console.error('Error in observe callback', e);
-          }
-        });
-      }
+      if (reconciliation.buffer(message)) return;
+      if (bufferServerMessage(message)) return;
+      applyRemoved(message.collection, message.id);
     });
+
+    const waitForUpdated = options.waitForUpdated !== false;
     Data.ddp.on('result', (message: any) => {
-      const call = Data.calls.find((c) => c.id === message.id);
-      if (call && typeof call.callback === 'function') {
-        call.callback(message.error, message.result);
-      }
-      const idx = Data.calls.findIndex((c) => c.id === message.id);
-      if (idx >= 0) Data.calls.splice(idx, 1);
+      receiveResult(Data.calls, message, waitForUpdated);
     });
 
-    Data.ddp.on('nosub', (message: any) => {
-      // Ignore nosub that corresponds to our own restart/unsub bookkeeping
-      if (this.removing[message.id]) {
-        delete this.removing[message.id];
-        return;
-      }
+    Data.ddp.on('updated', (message: any) => {
+      (message.methods || []).forEach((id: string) => {
+        // replace the stub's writes with the server's data
+        methodDataUpdated(id);
+        receiveUpdated(Data.calls, id);
+      });
+    });
 
-      for (const id in Data.subscriptions) {
-        const sub = Data.subscriptions[id];
-        if (sub.subIdRemember === message.id) {
+    Data.ddp.on('nosub', (message: any) => {
+      subscriptionStopped(
+        Data.subscriptions,
+        this.removing,
+        message,
+        (sub, id) => {
           // Helpful debug: log which subscription this nosub refers to
           if (this.isVerbose) {
             try {
@@ -539,37 +574,10 @@ const Meteor: MeteorBase = {
               // no-op
             }
           }
-          const formattedError = toMeteorStyleError(message.error);
-          // If server ended the subscription with an error, surface it
-          if (
-            message.error &&
-            typeof sub.errorCallback === 'function' &&
-            !sub.suppressOnStop
-          ) {
-            try {
-              sub.errorCallback(formattedError);
-            } catch (e) {
-              console.error('Error in subscription onError callback', e);
-            }
-          }
-
-          // Always notify onStop when a subscription ends on the server
-          if (typeof sub.stopCallback === 'function' && !sub.suppressOnStop) {
-            try {
-              sub.stopCallback(formattedError);
-            } catch (e) {
-              console.error('Error in subscription onStop callback', e);
-            }
-          }
-
-          // Mirror local stop without sending another unsub
-          if (sub.ready) sub.readyDeps.changed();
-          delete Data.subscriptions[id];
-
-          // Found and handled matching sub; exit loop
-          break;
         }
-      }
+      );
+      // a failed subscription does not hold back the others
+      finishReconciliation();
     });
 
     if (options.NetInfo !== null) {
@@ -591,7 +599,8 @@ const Meteor: MeteorBase = {
               Data.ddp?.autoReconnect &&
               netInfoReconnectAllowed
             ) {
-              Data.ddp?.connect();
+              // reconnect right away, instead of waiting for the backoff
+              Data.ddp?.scheduleReconnect(0);
             }
           }
         );
@@ -602,155 +611,11 @@ const Meteor: MeteorBase = {
       }
     }
   },
-  subscribe(name: string) {
-    let params = Array.prototype.slice.call(arguments, 1);
-    let callbacks: any = {};
-    if (params.length) {
-      let lastParam = params[params.length - 1];
-      if (typeof lastParam == 'function') {
-        callbacks.onReady = params.pop();
-      } else if (
-        lastParam &&
-        (typeof lastParam.onReady == 'function' ||
-          typeof lastParam.onError == 'function' ||
-          typeof lastParam.onStop == 'function')
-      ) {
-        callbacks = params.pop();
-      }
-    }
-
-    // Is there an existing sub with the same name and param, run in an
-    // invalidated Computation? This will happen if we are rerunning an
-    // existing computation.
-    //
-    // For example, consider a rerun of:
-    //
-    //     Tracker.autorun(function () {
-    //       Meteor.subscribe("foo", Session.get("foo"));
-    //       Meteor.subscribe("bar", Session.get("bar"));
-    //     });
-    //
-    // If "foo" has changed but "bar" has not, we will match the "bar"
-    // subcribe to an existing inactive subscription in order to not
-    // unsub and resub the subscription unnecessarily.
-    //
-    // We only look for one such sub; if there are N apparently-identical subs
-    // being invalidated, we will require N matching subscribe calls to keep
-    // them all active.
-
-    let existing: any = false;
-    const matchingSubs: any[] = [];
-    for (let i in Data.subscriptions) {
-      const sub = Data.subscriptions[i];
-      if (sub.name === name && EJSON.equals(sub.params, params)) {
-        matchingSubs.push(sub);
-        if (sub.inactive) existing = sub;
-      }
-    }
-    if (!existing && matchingSubs.length) {
-      existing = matchingSubs[0];
-    }
-
-    // If we have a matching subscription that never became ready, stop it so callers
-    // get an onStop and a fresh sub is sent.
-    if (existing && !existing.ready) {
-      existing.stop();
-      existing = false;
-    }
-
-    let id;
-    if (existing) {
-      id = existing.id;
-      existing.inactive = false;
-      existing.suppressOnStop = false;
-
-      if (callbacks.onReady) {
-        // If the sub is already ready, fire immediately; otherwise store latest callback.
-        if (existing.ready) {
-          callbacks.onReady();
-        } else {
-          existing.readyCallback = callbacks.onReady;
-        }
-      }
-      if (callbacks.onStop) {
-        existing.stopCallback = callbacks.onStop;
-      }
-      if (callbacks.onError) {
-        existing.errorCallback = callbacks.onError;
-      }
-    } else {
-      // New sub! Generate an id, save it locally, and send message.
-
-      id = Random.id();
-      const ddp = Meteor.requireDdp();
-      const subIdRemember = ddp.sub(name, params);
-
-      // TODO subscription object should be represented by
-      //   a Subscription data-class
-      Data.subscriptions[id] = {
-        id: id,
-        subIdRemember: subIdRemember,
-        name: name,
-        params: EJSON.clone(params),
-        inactive: false,
-        ready: false,
-        wasReady: false,
-        restartAttempts: 0,
-        readyDeps: new Tracker.Dependency(),
-        readyCallback: callbacks.onReady,
-        stopCallback: callbacks.onStop,
-        errorCallback: callbacks.onError,
-        suppressOnStop: false,
-        stop: function () {
-          const ddp = Meteor.requireDdp();
-          ddp.unsub(this.subIdRemember);
-          delete Data.subscriptions[this.id];
-          this.ready && this.readyDeps.changed();
-
-          if (callbacks.onStop) {
-            callbacks.onStop();
-          }
-        },
-      };
-    }
-
-    // return a handle to the application.
-    // TODO represent handle by a SubscriptionHandle class
-    var handle = {
-      stop: function () {
-        if (Data.subscriptions[id]) Data.subscriptions[id].stop();
-      },
-      ready: function () {
-        if (!Data.subscriptions[id]) return false;
-
-        let record = Data.subscriptions[id];
-        record.readyDeps.depend();
-        return record.ready;
-      },
-      subscriptionId: id,
-    };
-
-    if (Tracker.active) {
-      // We're in a reactive computation, so we'd like to unsubscribe when the
-      // computation is invalidated... but not if the rerun just re-subscribes
-      // to the same subscription!  When a rerun happens, we use onInvalidate
-      // as a change to mark the subscription "inactive" so that it can
-      // be reused from the rerun.  If it isn't reused, it's killed from
-      // an afterFlush.
-      Tracker.onInvalidate(function (c: any) {
-        if (Data.subscriptions[id]) {
-          Data.subscriptions[id].inactive = true;
-        }
-
-        Tracker.afterFlush(function () {
-          if (Data.subscriptions[id] && Data.subscriptions[id].inactive) {
-            handle.stop();
-          }
-        });
-      });
-    }
-
-    return handle;
+  subscribe(name: string, ...args: unknown[]) {
+    return subscribe(Data, name, args);
+  },
+  connectTo(endpoint: string, options?: any) {
+    return new Connection(endpoint, options);
   },
 };
 
@@ -758,6 +623,13 @@ const Meteor: MeteorBase = {
 Data.on('onLogin', () => {});
 Data.on('onLogout', () => {});
 
+// Replay persisted method calls once the user is logged in again
+Data.on('onLogin', () => {
+  if (Data._options.persistMethods) {
+    replayPersistedMethods();
+  }
+});
+
 const getNetInfo = (NetInfo?: any) =>
   NetInfo ? NetInfo : require('@react-native-community/netinfo').default;
 
@@ -0,0 +1,288 @@
+import EJSON from 'ejson';
+import Data from './Data';
+import Random from '../lib/Random';
+import RandomStream from '../lib/RandomStream';
+import { localCollections, replaceDocument } from './Collection';
+
+type MethodStub = (this: MethodInvocation, ...args: any[]) => unknown;
+
+/**
+ * The `this` context of a method stub, mirrors Meteor's MethodInvocation
+ */
+export type MethodInvocation = {
+  name: string;
+  isSimulation: true;
+  unblock(): void;
+  /** lazily creates the seed, that is sent along with the method */
+  randomSeed(): string;
+  /** the generator for deterministic values, e.g. `/collection/<name>` ids */
+  randomStream(name: string): ReturnType<RandomStream['sequence']>;
+};
+
+/**
+ * A document that has been written by one or more stubs,
+ * along with its latest version, as known by the server.
+ * @private
+ */
+type StubWrittenDocument = {
+  collection: string;
+  id: string;
+  serverDocument: Record<string, any> | undefined;
+  methodIds: Set<string>;
+};
+
+/**
+ * @private
+ */
+const stubs: Record<string, MethodStub> = Object.create(null);
+
+/**
+ * @private
+ */
+const writtenDocuments = new Map<string, StubWrittenDocument>();
+
+/**
+ * The invocation of the stub that currently runs, if any
+ * @private
+ */
+let currentInvocation: MethodInvocation | null = null;
+
+/** @private */
+const documentKey = (collection: string, id: string) =>
+  `${collection}\u0000${id}`;
+
+/** @private */
+const withoutVersion = (doc: any) => {
+  if (!doc) return undefined;
+  const { _version, ...rest } = doc;
+  return EJSON.clone(rest);
+};
+
+/**
+ * Defines client-side stubs for methods. A stub runs against the local
+ * Minimongo whenever the method is called, so the UI updates immediately
+ * (latency compensation). Its writes are replaced by the server's data
+ * once the server reports the method's writes via `updated`.
+ * @param methods {object} dictionary of method names to stub functions
+ */
+export function methods(methods: Record<string, MethodStub>): void {
+  Object.keys(methods).forEach((name) => {
+    const stub = methods[name];
+    if (typeof stub !== 'function') {
+      throw new Error(`Method '${name}' must be a function`);
+    }
+    if (stubs[name]) {
+      throw new Error(`A method named '${name}' is already defined`);
+    }
+    stubs[name] = stub;
+  });
+}
+
+/**
+ * Returns true, while a stub is running. Methods called from within a stub
+ * only run their own stub and are not sent to the server.
+ * @private
+ */
+export function isSimulation(): boolean {
+  return !!currentInvocation;
+}
+
+/**
+ * Result of a stub run. `recordWrites` associates the documents,
+ * written by the stub, with the id of the method that has been sent.
+ */
+export type StubRun = {
+  result?: unknown;
+  error?: unknown;
+  randomSeed?: string;
+  recordWrites(methodId: string): void;
+};
+
+/**
+ * Returns the generator for ids of the given sequence. Within a stub it is
+ * seeded by the method's `randomSeed`, so the server generates the same ids.
+ * Otherwise it falls back to the secure random generator.
+ * @param name {string} name of the sequence, e.g. `/collection/tasks`
+ * @returns {object} a generator with `id` and `hexString`
+ */
+export function randomStream(
+  name: string
+): Pick<typeof Random, 'id' | 'hexString'> {
+  return currentInvocation ? currentInvocation.randomStream(name) : Random;
+}
+
+/**
+ * Runs the stub of a method and records the server-backed documents it
+ * wrote, so they can be restored, once the server's version arrives.
+ * Errors of top-level stubs are logged but not thrown, as in Meteor.
+ * @private
+ * @param name {string} the method name
+ * @param args {array} the method arguments
+ * @returns {StubRun}
+ */
+export function runStub(name: string, args: unknown[]): StubRun {
+  const stub = stubs[name];
+  if (!stub) return { recordWrites() {} };
+
+  const previousInvocation = currentInvocation;
+  const isNested = !!previousInvocation;
+  const finishTracking = isNested ? null : trackWrites();
+  const run: StubRun = { recordWrites() {} };
+  let stream: RandomStream | null = null;
+  const invocation: MethodInvocation = {
+    name,
+    isSimulation: true,
+    unblock() {},
+    randomSeed() {
+      if (run.randomSeed === undefined) {
+        // nested calls derive their seed from the enclosing method
+        run.randomSeed = previousInvocation
+          ? previousInvocation.randomStream(`/rpc/${name}`).hexString(20)
+          : Random.hexString(20);
+      }
+      return run.randomSeed;
+    },
+    randomStream(streamName: string) {
+      stream = stream || new RandomStream(() => invocation.randomSeed());
+      return stream.sequence(streamName);
+    },
+  };
+
+  currentInvocation = invocation;
+  try {
+    run.result = stub.apply(invocation, args as any[]);
+  } catch (e) {
+    run.error = e;
+    if (!isNested) {
+      console.error(
+        `Exception while simulating the effect of invoking '${name}'`,
+        e
+      );
+    }
+  } finally {
+    currentInvocation = previousInvocation;
+  }
+
+  if (!finishTracking) return run;
+  const changes = finishTracking();
+  run.recordWrites = (methodId: string) => {
+    changes.forEach(({ collection, id, original }) => {
+      const key = documentKey(collection, id);
+      let written = writtenDocuments.get(key);
+      if (!written) {
+        written = {
+          collection,
+          id,
+          serverDocument: original,
+          methodIds: new Set(),
+        };
+        writtenDocuments.set(key, written);
+      }
+      written.methodIds.add(methodId);
+    });
+  };
+  return run;
+}
+
+/**
+ * Intercepts the writes to server-backed collections, which Minimongo makes
+ * by `upsert` and `del`, and keeps the version of each document before its
+ * first write. Returns a function, that stops it and returns the changes.
+ * @private
+ */
+function trackWrites() {
+  const changes = new Map<
+    string,
+    { collection: string; id: string; original: any }
+  >();
+  const stores = Object.keys(Data.db.collections)
+    .filter((collection) => !localCollections.includes(collection))
+    .map((collection) => {
+      const store = Data.db.collections[collection];
+      const { upsert, del } = store;
+      const record = (id: string) => {
+        const key = documentKey(collection, id);
+        if (changes.has(key)) return;
+        changes.set(key, {
+          collection,
+          id,
+          original: withoutVersion(store.items[id]),
+        });
+      };
+      store.upsert = (docs: any, ...rest: any[]) => {
+        (Array.isArray(docs) ? docs : [docs]).forEach((doc) => record(doc._id));
+        return upsert.call(store, docs, ...rest);
+      };
+      store.del = (id: string) => {
+        record(id);
+        return del.call(store, id);
+      };
+      return store;
+    });
+
+  return () => {
+    // the prototype's methods apply again
+    stores.forEach((store) => {
+      delete store.upsert;
+      delete store.del;
+    });
+    return Array.from(changes.values());
+  };
+}
+
+/**
+ * Applies an incoming data message to the server version of a document,
+ * that has been written by a stub, instead of the local store.
+ * @private
+ * @param message {object} an `added`, `changed` or `removed` DDP message
+ * @returns {boolean} true, if the message has been buffered
+ */
+export function bufferServerMessage(message: any): boolean {
+  const written = writtenDocuments.get(
+    documentKey(message.collection, message.id)
+  );
+  if (!written) return false;
+
+  if (message.msg === 'added') {
+    written.serverDocument = {
+      _id: message.id,
+      ...EJSON.clone(message.fields),
+    };
+  } else if (message.msg === 'changed' && written.serverDocument) {
+    Object.assign(written.serverDocument, EJSON.clone(message.fields));
+    (message.cleared || []).forEach((field: string) => {
+      delete written.serverDocument![field];
+    });
+  } else if (message.msg === 'removed') {
+    written.serverDocument = undefined;
+  }
+  return true;
+}
+
+/**
+ * Called, once the server sent `updated` for a method. Documents that are
+ * no longer written by any pending stub are reset to the server's version.
+ * @private
+ * @param methodId {string}
+ */
+export function methodDataUpdated(methodId: string): void {
+  writtenDocuments.forEach((written, key) => {
+    if (!written.methodIds.delete(methodId)) return;
+    if (written.methodIds.size === 0) {
+      writtenDocuments.delete(key);
+      replaceDocument(written.collection, written.id, written.serverDocument);
+    }
+  });
+}
+
+/**
+ * Reverts all pending stub writes to the server's version of the documents.
+ * @private
+ */
+export function rollbackStubWrites(): void {
+  const pending = Array.from(writtenDocuments.values());
+  writtenDocuments.clear();
+  pending.forEach((written) => {
+    replaceDocument(written.collection, written.id, written.serverDocument);
+  });
+}
@@ -0,0 +1,163 @@
+import EJSON from 'ejson';
+import Data, { type KeyStorage } from './Data';
+import { applyAdded } from './Collection';
+
+/**
+ * Options of the `persist` option of {Mongo.Collection}
+ */
+export type PersistOptions = {
+  /** storage adapter of this collection, defaults to the `collectionStorage` or `KeyStorage` option of `Meteor.connect` */
+  storage?: KeyStorage;
+};
+
+const STORAGE_PREFIX = 'Meteor.collection.';
+
+/**
+ * Delay in ms, to write the changes of several ticks at once
+ * @private
+ */
+const SAVE_DELAY = 100;
+
+/**
+ * @private
+ */
+type PersistedCollection = {
+  storage?: KeyStorage;
+  /** changes are only written, once the stored documents have been read */
+  state: 'pending' | 'loading' | 'loaded';
+  saveTimer: ReturnType<typeof setTimeout> | null;
+};
+
+/**
+ * @private
+ */
+const collections = new Map<string, PersistedCollection>();
+
+/**
+ * @private
+ */
+let loading: Promise<void> = Promise.resolve();
+
+/** @private */
+const storageOf = (entry: PersistedCollection): KeyStorage | undefined =>
+  entry.storage ?? Data._options.collectionStorage ?? Data._options.KeyStorage;
+
+/** @private */
+const logStorageError = (name: string, operation: string, error: unknown) => {
+  Data._options.logger?.({
+    event: 'key_storage_error',
+    key: STORAGE_PREFIX + name,
+    error: error instanceof Error ? error.message : String(error),
+    operation,
+  });
+};
+
+/** @private */
+const save = (name: string) => {
+  const entry = collections.get(name);
+  const storage = entry && storageOf(entry);
+  if (!entry || !storage || !Data.db[name]) return Promise.resolve();
+  const documents = Data.db[name]
+    .find({})
+    .map(({ _version, ...document }: any) => document);
+  return Promise.resolve(
+    storage.setItem(STORAGE_PREFIX + name, EJSON.stringify(documents))
+  ).catch((error) => logStorageError(name, 'setItem', error));
+};
+
+/** @private */
+const scheduleSave = (name: string) => {
+  const entry = collections.get(name);
+  if (!entry || entry.state !== 'loaded' || entry.saveTimer) return;
+  entry.saveTimer = setTimeout(() => {
+    entry.saveTimer = null;
+    save(name);
+  }, SAVE_DELAY);
+};
+
+// Minimongo reports the changed collections once per tick,
+// regardless of whether the server, a stub or a local write caused them
+Data.db.on('change', (records: Record<string, unknown>) => {
+  Object.keys(records).forEach(scheduleSave);
+});
+
+/** @private */
+const load = (name: string, entry: PersistedCollection): Promise<void> => {
+  const storage = storageOf(entry);
+  if (!storage) return Promise.resolve();
+  entry.state = 'loading';
+  return Promise.resolve(storage.getItem(STORAGE_PREFIX + name))
+    .then((value) => {
+      if (!value) return;
+      const documents = EJSON.parse(value) as any[];
+      documents.forEach(({ _id, ...fields }) => {
+        // documents, that are already known in memory, take precedence
+        if (Data.db[name]?.findOne({ _id })) return;
+        applyAdded(name, _id, fields);
+      });
+    })
+    .catch((error) => logStorageError(name, 'getItem', error))
+    .then(() => {
+      entry.state = 'loaded';
+    });
+};
+
+/**
+ * Registers a collection, whose documents are written to the storage.
+ * They are rehydrated by {loadPersistedCollections}, or right away,
+ * if `Meteor.connect` has been called before.
+ * @private
+ * @param name {string} the collection name
+ * @param options {PersistOptions}
+ */
+export function persistCollection(name: string, options: PersistOptions = {}) {
+  if (collections.has(name)) return;
+  const entry: PersistedCollection = {
+    state: 'pending',
+    saveTimer: null,
+  };
+  if (options.storage) entry.storage = options.storage;
+  collections.set(name, entry);
+  if (storageOf(entry)) {
+    const previous = loading;
+    loading = Promise.all([previous, load(name, entry)]).then(() => {});
+  }
+}
+
+/**
+ * Rehydrates the documents of all registered collections from the storage,
+ * that have not been loaded yet
+ * @private
+ * @returns {Promise<void>}
+ */
+export function loadPersistedCollections(): Promise<void> {
+  const pending: Promise<void>[] = [loading];
+  collections.forEach((entry, name) => {
+    if (entry.state === 'pending') pending.push(load(name, entry));
+  });
+  loading = Promise.all(pending).then(() => {});
+  return loading;
+}
+
+/**
+ * @private
+ * @returns {boolean} true, if any collection is persisted
+ */
+export function hasPersistedCollections(): boolean {
+  return collections.size > 0;
+}
+
+/**
+ * Writes the documents of all persisted collections right away,
+ * e.g. before the app goes into the background
+ * @returns {Promise<void>}
+ */
+export function savePersistedCollections(): Promise<void> {
+  const saves: Promise<void>[] = [];
+  collections.forEach((entry, name) => {
+    if (entry.saveTimer) clearTimeout(entry.saveTimer);
+    entry.saveTimer = null;
+    if (entry.state === 'loaded') saves.push(save(name));
+  });
+  return Promise.all(saves).then(() => {});
+}
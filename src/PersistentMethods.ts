@@ -0,0 +1,175 @@
+import EJSON from 'ejson';
+import Data from './Data';
+import Random from '../lib/Random';
+import { apply, isConnectionLost } from './Call';
+
+/**
+ * A method call that has been saved to the KeyStorage,
+ * so it can be replayed after the app restarts or the connection is lost.
+ */
+export type PersistedMethod = {
+  id: string;
+  name: string;
+  args: unknown[];
+  createdAt: number;
+};
+
+/**
+ * Hook to resolve conflicts of a persisted method before it is replayed.
+ * Return the (modified) entry to replay it or `null` to drop it.
+ */
+export type ResolvePersistedMethod = (
+  entry: PersistedMethod
+) =>
+  | PersistedMethod
+  | null
+  | undefined
+  | Promise<PersistedMethod | null | undefined>;
+
+const STORAGE_KEY = 'Meteor.persistedMethods';
+
+/**
+ * @private
+ */
+let entries: PersistedMethod[] = [];
+
+/**
+ * Ids of entries, whose method call has not settled yet
+ * @private
+ */
+const inFlight = new Set<string>();
+
+/**
+ * @private
+ */
+let loading: Promise<void> = Promise.resolve();
+
+/** @private */
+const logStorageError = (operation: string, error: unknown) => {
+  Data._options.logger?.({
+    event: 'key_storage_error',
+    key: STORAGE_KEY,
+    error: error instanceof Error ? error.message : String(error),
+    operation,
+  });
+};
+
+/** @private */
+const save = () => {
+  const storage = Data._options.KeyStorage;
+  if (!storage) return Promise.resolve();
+  const operation = entries.length
+    ? storage.setItem(STORAGE_KEY, EJSON.stringify(entries))
+    : storage.removeItem(STORAGE_KEY);
+  return Promise.resolve(operation).catch((error) =>
+    logStorageError(entries.length ? 'setItem' : 'removeItem', error)
+  );
+};
+
+/**
+ * Loads the persisted methods from the KeyStorage. Entries, that are
+ * already known in memory, take precedence.
+ * @private
+ * @returns {Promise<void>}
+ */
+export function loadPersistedMethods(): Promise<void> {
+  const storage = Data._options.KeyStorage;
+  loading = Promise.resolve(storage?.getItem(STORAGE_KEY))
+    .then((value) => {
+      if (!value) return;
+      const stored = EJSON.parse(value) as PersistedMethod[];
+      stored.forEach((entry) => {
+        if (!entries.some((e) => e.id === entry.id)) entries.push(entry);
+      });
+    })
+    .catch((error) => logStorageError('getItem', error));
+  return loading;
+}
+
+/**
+ * Saves a method call, replacing an entry with the same id,
+ * and marks it as in flight.
+ * @private
+ * @param name {string} the method name
+ * @param args {array} the method arguments
+ * @param id {string=} optional id to dedupe entries, defaults to a random id
+ * @returns {PersistedMethod} the saved entry
+ */
+export function persistMethod(
+  name: string,
+  args: unknown[],
+  id: string = Random.id()
+): PersistedMethod {
+  const existing = entries.find((e) => e.id === id);
+  const entry: PersistedMethod = {
+    id,
+    name,
+    args: EJSON.clone(args),
+    createdAt: existing ? existing.createdAt : Date.now(),
+  };
+  entries = entries.filter((e) => e.id !== id).concat(entry);
+  inFlight.add(id);
+  save();
+  return entry;
+}
+
+/**
+ * Settles the call of a persisted method. Entries are kept for a replay
+ * only if the connection has been lost before the result arrived.
+ * @private
+ * @param id {string} the entry id
+ * @param err {object=} the error, the call failed with
+ */
+export function settlePersistedMethod(id: string, err?: unknown): void {
+  inFlight.delete(id);
+  if (isConnectionLost(err)) return;
+  entries = entries.filter((e) => e.id !== id);
+  save();
+}
+
+/**
+ * Returns the persisted methods, that wait to be replayed
+ * @returns {PersistedMethod[]}
+ */
+export function getPersistedMethods(): PersistedMethod[] {
+  return entries.filter((e) => !inFlight.has(e.id));
+}
+
+/**
+ * Replays all persisted methods, that are not in flight. Each entry is
+ * passed to the `resolvePersistedMethod` option of `Meteor.connect` first,
+ * which may modify or drop it.
+ * @private
+ * @returns {Promise<void>}
+ */
+export async function replayPersistedMethods(): Promise<void> {
+  await loading;
+  const resolve = Data._options.resolvePersistedMethod;
+
+  for (const entry of getPersistedMethods()) {
+    let next: PersistedMethod | null | undefined = entry;
+    if (resolve) {
+      try {
+        next = await resolve(entry);
+      } catch (e) {
+        console.error('Error in resolvePersistedMethod', e);
+      }
+    }
+    // the entry may have been replayed concurrently
+    if (inFlight.has(entry.id)) continue;
+
+    if (!next) {
+      entries = entries.filter((e) => e.id !== entry.id);
+      save();
+      continue;
+    }
+
+    try {
+      apply(next.name, next.args, { persist: true, persistId: entry.id });
+    } catch (e) {
+      // not connected anymore, keep the entry for the next replay
+      inFlight.delete(entry.id);
+      break;
+    }
+  }
+}
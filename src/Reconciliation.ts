@@ -0,0 +1,109 @@
+import EJSON from 'ejson';
+import { replaceDocument } from './Collection';
+
+/**
+ * Options of {Reconciliation}
+ */
+export type ReconciliationOptions = {
+  /** false for collections, that the server does not publish, e.g. local ones */
+  isServerCollection?: (name: string) => boolean;
+  /** receives each resulting message first, returns true to skip applying it */
+  redirect?: (message: any) => boolean;
+};
+
+/**
+ * Keeps the documents of a connection, once a new session starts, instead of
+ * removing them. The data messages of the new session are buffered, until all
+ * restarted subscriptions are ready, and then applied as a diff, so observers
+ * only see the documents that actually changed (Meteor's quiescence).
+ * @private
+ */
+export default class Reconciliation {
+  /** true, while the data messages are buffered */
+  active: boolean;
+  private db: any;
+  private options: ReconciliationOptions;
+  /** the documents of the new session, by collection and id */
+  private documents: Map<string, Map<string, Record<string, any>>>;
+
+  constructor(db: any, options: ReconciliationOptions = {}) {
+    this.db = db;
+    this.options = options;
+    this.active = false;
+    this.documents = new Map();
+  }
+
+  /**
+   * Starts buffering, if there are any documents to keep
+   */
+  start() {
+    this.documents = new Map();
+    this.active = this.collections().some(
+      (name) => Object.keys(this.db.collections[name].items).length > 0
+    );
+  }
+
+  /**
+   * Applies an `added`, `changed` or `removed` message to the buffer
+   * @param message {object} the DDP message
+   * @returns {boolean} true, if the message has been buffered
+   */
+  buffer(message: any): boolean {
+    if (!this.active) return false;
+    let documents = this.documents.get(message.collection);
+    if (!documents) {
+      documents = new Map();
+      this.documents.set(message.collection, documents);
+    }
+    if (message.msg === 'added') {
+      documents.set(message.id, EJSON.clone(message.fields ?? {}));
+    } else if (message.msg === 'changed') {
+      const fields = documents.get(message.id) ?? {};
+      Object.assign(fields, EJSON.clone(message.fields ?? {}));
+      (message.cleared || []).forEach((field: string) => {
+        delete fields[field];
+      });
+      documents.set(message.id, fields);
+    } else if (message.msg === 'removed') {
+      documents.delete(message.id);
+    }
+    return true;
+  }
+
+  /**
+   * Stops buffering and replaces the documents with the ones of the new session.
+   * Documents, the new session has not sent, are removed.
+   */
+  finish() {
+    if (!this.active) return;
+    const buffered = this.documents;
+    this.active = false;
+    this.documents = new Map();
+
+    const names = new Set([...this.collections(), ...buffered.keys()]);
+    names.forEach((collection) => {
+      const documents = buffered.get(collection) ?? new Map();
+      const items = this.db.collections[collection]?.items ?? {};
+      const ids = new Set([...Object.keys(items), ...documents.keys()]);
+      ids.forEach((id) => {
+        const fields = documents.get(id);
+        const message = fields
+          ? { msg: 'added', collection, id, fields }
+          : { msg: 'removed', collection, id };
+        if (this.options.redirect?.(message)) return;
+        replaceDocument(
+          collection,
+          id,
+          fields && { _id: id, ...fields },
+          this.db
+        );
+      });
+    });
+  }
+
+  /** @private */
+  private collections(): string[] {
+    const { isServerCollection = () => true } = this.options;
+    return Object.keys(this.db.collections).filter(isServerCollection);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Registry of the server's methods, to type `Meteor.call`, `Meteor.callAsync`
+ * and `Meteor.apply`. It is empty by default and meant to be extended by
+ * declaration merging, mapping each method name to its signature:
+ *
+ * @example
+ * declare module '@meteorrn/core' {
+ *   interface MeteorMethods {
+ *     'tasks.insert': (text: string) => string;
+ *   }
+ * }
+ *
+ * Methods, that are not registered, remain untyped.
+ */
+export interface MeteorMethods {}
+
+/**
+ * Registry of the server's publications, to type `Meteor.subscribe`.
+ * It is extended by declaration merging, like {MeteorMethods},
+ * mapping each publication name to its signature:
+ *
+ * @example
+ * declare module '@meteorrn/core' {
+ *   interface MeteorPublications {
+ *     'tasks.byList': (listId: string) => void;
+ *   }
+ * }
+ *
+ * Publications, that are not registered, remain untyped.
+ */
+export interface MeteorPublications {}
+
+/**
+ * Arguments of a registered method, `unknown[]` for any other name
+ */
+export type MethodArgs<Name extends string> = Name extends keyof MeteorMethods
+  ? MeteorMethods[Name] extends (...args: infer Args) => any
+    ? Args
+    : unknown[]
+  : unknown[];
+
+/**
+ * Result of a registered method, `unknown` for any other name.
+ * Methods, that return a Promise on the server, resolve to its value.
+ */
+export type MethodResult<Name extends string> = Name extends keyof MeteorMethods
+  ? MeteorMethods[Name] extends (...args: any[]) => infer Result
+    ? Awaited<Result>
+    : unknown
+  : unknown;
+
+/**
+ * Arguments of a registered publication, `unknown[]` for any other name
+ */
+export type PublicationArgs<Name extends string> =
+  Name extends keyof MeteorPublications
+    ? MeteorPublications[Name] extends (...args: infer Args) => any
+      ? Args
+      : unknown[]
+    : unknown[];
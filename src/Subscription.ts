@@ -0,0 +1,400 @@
+import EJSON from 'ejson';
+import Tracker from './Tracker';
+import type DDP from '../lib/ddp';
+import Random from '../lib/Random';
+import { isAbortSignal } from '../lib/utils';
+import type { PublicationArgs } from './Registry';
+
+type DdpErrorPayload = {
+  error?: number | string;
+  reason?: string;
+  details?: any;
+};
+
+/**
+ * Converts the error of a `nosub` message into an Error instance
+ * @private
+ */
+export function toMeteorStyleError(
+  payload?: DdpErrorPayload | null
+): Error | undefined {
+  if (!payload) return undefined;
+  const err = new Error(payload.reason || 'Subscription failed');
+  (err as any).error = payload.error;
+  (err as any).reason = payload.reason;
+  (err as any).details = payload.details;
+  return err;
+}
+
+/**
+ * Callbacks of a subscription, see {Meteor.subscribe}
+ */
+export type SubscriptionCallbacks = {
+  onReady?: () => void;
+  onStop?: (error?: Error) => void;
+  onError?: (error: Error) => void;
+  /** stops the subscription, unless other callers subscribed to it as well */
+  signal?: AbortSignal;
+};
+
+/**
+ * Arguments of {Meteor.subscribe}: the publication arguments, optionally
+ * followed by an `onReady` callback, the callbacks object or an AbortSignal
+ */
+export type SubscribeArgs<Name extends string> =
+  | PublicationArgs<Name>
+  | [
+      ...PublicationArgs<Name>,
+      (() => void) | SubscriptionCallbacks | AbortSignal
+    ];
+
+export type SubscriptionHandle = {
+  stop(): void;
+  ready(): boolean;
+  subscriptionId: string;
+};
+
+/**
+ * The connection a subscription is made over: its DDP instance and subscriptions.
+ * `Data` is the target of `Meteor.connect`, a `Connection` of `Meteor.connectTo`.
+ */
+export type SubscriptionTarget = {
+  ddp: DDP | null;
+  subscriptions: Record<string, any>;
+};
+
+/**
+ * @private
+ */
+function requireDdp(target: SubscriptionTarget): DDP {
+  if (!target.ddp)
+    throw new Error('DDP is not initialized. Call Meteor.connect() first.');
+  return target.ddp;
+}
+
+/**
+ * Subscribes to a publication over the target's connection, see {Meteor.subscribe}
+ * @private
+ * @param target {SubscriptionTarget}
+ * @param name {string} name of the publication
+ * @param args {array} the publication arguments, optionally followed by
+ *   an `onReady` callback, the callbacks object or an AbortSignal
+ * @returns {SubscriptionHandle}
+ */
+export function subscribe(
+  target: SubscriptionTarget,
+  name: string,
+  args: unknown[]
+): SubscriptionHandle {
+  const subscriptions = target.subscriptions;
+  let params: any[] = args.slice();
+  let callbacks: any = {};
+  if (params.length) {
+    let lastParam = params[params.length - 1];
+    if (typeof lastParam == 'function') {
+      callbacks.onReady = params.pop();
+    } else if (isAbortSignal(lastParam)) {
+      callbacks.signal = params.pop();
+    } else if (
+      lastParam &&
+      (typeof lastParam.onReady == 'function' ||
+        typeof lastParam.onError == 'function' ||
+        typeof lastParam.onStop == 'function' ||
+        isAbortSignal(lastParam.signal))
+    ) {
+      callbacks = params.pop();
+    }
+  }
+
+  // An aborted signal never subscribes, mirroring aborted method calls
+  const signal: AbortSignal | undefined = callbacks.signal;
+  if (signal?.aborted) {
+    return {
+      stop() {},
+      ready: () => false,
+      subscriptionId: Random.id(),
+    };
+  }
+
+  // Is there an existing sub with the same name and param, run in an
+  // invalidated Computation? This will happen if we are rerunning an
+  // existing computation.
+  //
+  // For example, consider a rerun of:
+  //
+  //     Tracker.autorun(function () {
+  //       Meteor.subscribe("foo", Session.get("foo"));
+  //       Meteor.subscribe("bar", Session.get("bar"));
+  //     });
+  //
+  // If "foo" has changed but "bar" has not, we will match the "bar"
+  // subcribe to an existing inactive subscription in order to not
+  // unsub and resub the subscription unnecessarily.
+  //
+  // We only look for one such sub; if there are N apparently-identical subs
+  // being invalidated, we will require N matching subscribe calls to keep
+  // them all active.
+
+  let existing: any = false;
+  const matchingSubs: any[] = [];
+  for (let i in subscriptions) {
+    const sub = subscriptions[i];
+    if (sub.name === name && EJSON.equals(sub.params, params)) {
+      matchingSubs.push(sub);
+      if (sub.inactive) existing = sub;
+    }
+  }
+  if (!existing && matchingSubs.length) {
+    existing = matchingSubs[0];
+  }
+
+  // If we have a matching subscription that never became ready, stop it so callers
+  // get an onStop and a fresh sub is sent.
+  if (existing && !existing.ready) {
+    existing.stop();
+    existing = false;
+  }
+
+  let id;
+  if (existing) {
+    id = existing.id;
+    // a rerun takes over the reference of its previous run
+    if (!existing.inactive) existing.references += 1;
+    existing.inactive = false;
+    existing.suppressOnStop = false;
+
+    if (callbacks.onReady) {
+      // If the sub is already ready, fire immediately; otherwise store latest callback.
+      if (existing.ready) {
+        callbacks.onReady();
+      } else {
+        existing.readyCallback = callbacks.onReady;
+      }
+    }
+    if (callbacks.onStop) {
+      existing.stopCallback = callbacks.onStop;
+    }
+    if (callbacks.onError) {
+      existing.errorCallback = callbacks.onError;
+    }
+  } else {
+    // New sub! Generate an id, save it locally, and send message.
+
+    id = Random.id();
+    const ddp = requireDdp(target);
+    const subIdRemember = ddp.sub(name, params);
+
+    // TODO subscription object should be represented by
+    //   a Subscription data-class
+    subscriptions[id] = {
+      id: id,
+      subIdRemember: subIdRemember,
+      name: name,
+      params: EJSON.clone(params),
+      inactive: false,
+      ready: false,
+      wasReady: false,
+      restartAttempts: 0,
+      readyDeps: new Tracker.Dependency(),
+      readyCallback: callbacks.onReady,
+      stopCallback: callbacks.onStop,
+      errorCallback: callbacks.onError,
+      suppressOnStop: false,
+      references: 1,
+      signals: new Map(),
+      stop: function () {
+        const ddp = requireDdp(target);
+        detachSignals(this);
+        ddp.unsub(this.subIdRemember);
+        delete subscriptions[this.id];
+        this.ready && this.readyDeps.changed();
+
+        if (callbacks.onStop) {
+          callbacks.onStop();
+        }
+      },
+    };
+  }
+
+  // return a handle to the application.
+  // TODO represent handle by a SubscriptionHandle class
+  var handle = {
+    stop: function () {
+      if (subscriptions[id]) subscriptions[id].stop();
+    },
+    ready: function () {
+      if (!subscriptions[id]) return false;
+
+      let record = subscriptions[id];
+      record.readyDeps.depend();
+      return record.ready;
+    },
+    subscriptionId: id,
+  };
+
+  if (signal) holdSignal(subscriptions[id], signal);
+
+  if (Tracker.active) {
+    // We're in a reactive computation, so we'd like to unsubscribe when the
+    // computation is invalidated... but not if the rerun just re-subscribes
+    // to the same subscription!  When a rerun happens, we use onInvalidate
+    // as a change to mark the subscription "inactive" so that it can
+    // be reused from the rerun.  If it isn't reused, it's killed from
+    // an afterFlush.
+    Tracker.onInvalidate(function (c: any) {
+      if (subscriptions[id]) {
+        subscriptions[id].inactive = true;
+        // a rerun takes over the reference along with its own signal
+        if (signal) releaseSignal(subscriptions[id], signal);
+      }
+
+      Tracker.afterFlush(function () {
+        if (subscriptions[id] && subscriptions[id].inactive) {
+          handle.stop();
+        }
+      });
+    });
+  }
+
+  return handle;
+}
+
+/**
+ * Stops the subscription, once the signal aborts. Other callers may hold
+ * the same subscription, so an abort only drops the references, that have
+ * been taken with this signal. The signal gets one listener per subscription.
+ * @private
+ */
+function holdSignal(sub: any, signal: AbortSignal) {
+  const held = sub.signals.get(signal);
+  if (held) {
+    held.references += 1;
+    return;
+  }
+  const onAbort = () => {
+    const { references } = sub.signals.get(signal) ?? { references: 0 };
+    sub.signals.delete(signal);
+    sub.references -= references;
+    if (sub.references <= 0) sub.stop();
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+  sub.signals.set(signal, {
+    references: 1,
+    detach: () => signal.removeEventListener('abort', onAbort),
+  });
+}
+
+/**
+ * Drops a reference, that has been taken with the signal,
+ * and its listener, once no reference is left
+ * @private
+ */
+function releaseSignal(sub: any, signal: AbortSignal) {
+  const held = sub.signals.get(signal);
+  if (!held) return;
+  held.references -= 1;
+  if (held.references > 0) return;
+  held.detach();
+  sub.signals.delete(signal);
+}
+
+/**
+ * Removes the abort listeners of the callers, once the subscription stopped
+ * @private
+ */
+function detachSignals(sub: any) {
+  sub.signals.forEach(({ detach }: { detach: () => void }) => detach());
+  sub.signals.clear();
+}
+
+/**
+ * Handles the `ready` message: marks the subscriptions ready
+ * and invokes their `onReady` callbacks
+ * @private
+ * @param subscriptions {object} the subscriptions of the connection
+ * @param serverSubIds {string[]} the `subs` of the message
+ * @param onEach {function=} invoked with each subscription and its server id before it's marked ready
+ */
+export function subscriptionsReady(
+  subscriptions: Record<string, any>,
+  serverSubIds: string[],
+  onEach?: (sub: any, serverSubId: string) => void
+) {
+  const idsMap = new Map<string, string>();
+  for (var i in subscriptions) {
+    const sub = subscriptions[i];
+    idsMap.set(sub.subIdRemember, sub.id);
+  }
+  for (var i in serverSubIds) {
+    const serverSubId = serverSubIds[i] as string;
+    const subId = idsMap.get(serverSubId);
+    if (subId) {
+      const sub = subscriptions[subId];
+      onEach?.(sub, serverSubId);
+
+      sub.ready = true;
+      sub.wasReady = true;
+      sub.readyDeps.changed();
+      sub.readyCallback && sub.readyCallback();
+    }
+  }
+}
+
+/**
+ * Handles the `nosub` message: invokes the `onError` and `onStop` callbacks
+ * of the subscription and removes it, without sending another unsub
+ * @private
+ * @param subscriptions {object} the subscriptions of the connection
+ * @param removing {object} server ids of subscriptions, that were stopped for a restart
+ * @param message {object} the `nosub` message
+ * @param onFound {function=} invoked with the subscription and its local id
+ */
+export function subscriptionStopped(
+  subscriptions: Record<string, any>,
+  removing: Record<string, boolean>,
+  message: { id: string; error?: DdpErrorPayload },
+  onFound?: (sub: any, id: string) => void
+) {
+  // Ignore nosub that corresponds to our own restart/unsub bookkeeping
+  if (removing[message.id]) {
+    delete removing[message.id];
+    return;
+  }
+
+  for (const id in subscriptions) {
+    const sub = subscriptions[id];
+    if (sub.subIdRemember === message.id) {
+      onFound?.(sub, id);
+      const formattedError = toMeteorStyleError(message.error);
+      // If server ended the subscription with an error, surface it
+      if (
+        message.error &&
+        typeof sub.errorCallback === 'function' &&
+        !sub.suppressOnStop
+      ) {
+        try {
+          sub.errorCallback(formattedError);
+        } catch (e) {
+          console.error('Error in subscription onError callback', e);
+        }
+      }
+
+      // Always notify onStop when a subscription ends on the server
+      if (typeof sub.stopCallback === 'function' && !sub.suppressOnStop) {
+        try {
+          sub.stopCallback(formattedError);
+        } catch (e) {
+          console.error('Error in subscription onStop callback', e);
+        }
+      }
+
+      // Mirror local stop without sending another unsub
+      detachSignals(sub);
+      if (sub.ready) sub.readyDeps.changed();
+      delete subscriptions[id];
+
+      // Found and handled matching sub; exit loop
+      break;
+    }
+  }
+}
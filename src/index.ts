@@ -12,5 +12,26 @@ const { useTracker, withTracker, Mongo, ReactiveDict } = MeteorAugmented;
 
 export { useTracker, Accounts, withTracker, Mongo, ReactiveDict, Tracker };
 export { Vent } from './vent';
+export { createLoopbackTransport } from '../lib/transport';
+export { createSockJSTransport } from '../lib/sockjs';
+export type { SockJSOptions, SockJSProtocol } from '../lib/sockjs';
+export type {
+  LoopbackPeer,
+  Transport,
+  TransportCloseEvent,
+  TransportConstructor,
+} from '../lib/transport';
 export type { LoginFailurePayload } from './user/User';
+export type {
+  MeteorMethods,
+  MeteorPublications,
+  MethodArgs,
+  MethodResult,
+  PublicationArgs,
+} from './Registry';
+export type { ApplyOptions, MethodCallback, MethodError } from './Call';
+export type { ObserveChangesCallbacks } from './LiveQuery';
+export type { PersistOptions } from './PersistentCollections';
+export type { SubscriptionCallbacks, SubscriptionHandle } from './Subscription';
+export type { default as Connection, ConnectionOptions } from './Connection';
 export default MeteorAugmented;
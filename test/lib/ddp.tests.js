@@ -3,6 +3,8 @@ import { WebSocket } from 'mock-socket';
 import { expect } from 'chai';
 import { server } from '../hooks/mockServer';
 
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
 describe('ddp', function () {
   let validOptions;
   let ddp;
@@ -166,6 +168,187 @@ describe('ddp', function () {
     server().emit('message', '{"foo":"bar"}');
   });
 
+  describe('version negotiation', function () {
+    it('proposes the preferred version and supports older ones', function (done) {
+      validOptions.autoConnect = false;
+      ddp = new DDP(validOptions);
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg !== 'connect') return;
+        expect(message.version).to.equal('1');
+        expect(message.support).to.deep.equal(['1', 'pre2', 'pre1']);
+        done();
+      });
+      ddp.connect();
+    });
+    it('reconnects with the version the server suggested', function (done) {
+      validOptions.autoConnect = false;
+      ddp = new DDP(validOptions);
+      const versions = [];
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg !== 'connect') return;
+        versions.push(message.version);
+        if (versions.length === 1) {
+          ddp.socket.emit('message:in', { msg: 'failed', version: 'pre1' });
+        } else {
+          ddp.socket.emit('message:in', { msg: 'connected', session: 's1' });
+        }
+      });
+      listen(ddp, 'disconnected', () => {
+        done(new Error('should not report a lost connection'));
+      });
+      listen(ddp, 'connected', () => {
+        expect(versions).to.deep.equal(['1', 'pre1']);
+        expect(ddp.negotiatedVersion).to.equal('pre1');
+        expect(ddp.connectionStatus.retryCount).to.equal(0);
+        done();
+      });
+      ddp.connect();
+    });
+    it('fails, if the server requests an unsupported version', function (done) {
+      validOptions.autoConnect = false;
+      ddp = new DDP(validOptions);
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg !== 'connect') return;
+        ddp.socket.emit('message:in', { msg: 'failed', version: '2' });
+      });
+      listen(ddp, 'status', (status) => {
+        if (status.status !== 'failed') return;
+        expect(status.reason).to.equal(
+          'DDP version negotiation failed; server requested version 2'
+        );
+        expect(ddp.autoReconnect).to.equal(false);
+        expect(ddp.negotiatedVersion).to.equal(null);
+        done();
+      });
+      ddp.connect();
+    });
+  });
+
+  describe('connection status', function () {
+    it('starts offline and is connecting after connect', function () {
+      validOptions.autoConnect = false;
+      ddp = new DDP(validOptions);
+      expect(ddp.connectionStatus).to.deep.equal({
+        status: 'offline',
+        connected: false,
+        retryCount: 0,
+      });
+      ddp.connect();
+      expect(ddp.connectionStatus.status).to.equal('connecting');
+    });
+    it('is waiting with retry details after an unexpected close', function (done) {
+      validOptions.autoConnect = false;
+      validOptions.reconnectInterval = 5000;
+      validOptions.backoff = { jitter: 0 };
+      ddp = new DDP(validOptions);
+
+      listen(ddp.socket, 'open', () => {
+        ddp.socket.emit('message:in', { msg: 'connected' });
+      });
+      listen(ddp, 'status', (status) => {
+        if (status.status === 'connected') {
+          expect(status.retryCount).to.equal(0);
+          ddp.socket.close();
+        }
+        if (status.status === 'waiting') {
+          expect(status.connected).to.equal(false);
+          expect(status.retryCount).to.equal(1);
+          expect(status.retryTime).to.be.closeTo(Date.now() + 5000, 100);
+          expect(status.code).to.be.a('number');
+          done();
+        }
+      });
+      ddp.connect();
+    });
+    it('reconnects right away, when rescheduled without delay', function (done) {
+      validOptions.autoConnect = false;
+      validOptions.reconnectInterval = 5000;
+      ddp = new DDP(validOptions);
+
+      let opened = 0;
+      listen(ddp.socket, 'open', () => {
+        opened++;
+        if (opened === 1) {
+          ddp.socket.close();
+        } else {
+          expect(ddp.connectionStatus.retryCount).to.equal(1);
+          done();
+        }
+      });
+      listen(ddp, 'status', (status) => {
+        if (status.status === 'waiting' && status.retryTime > Date.now() + 10) {
+          ddp.scheduleReconnect(0);
+        }
+      });
+      ddp.connect();
+    });
+    it('reports the round-trip time of the heartbeat', function (done) {
+      validOptions.autoConnect = false;
+      validOptions.heartbeatInterval = 10;
+      ddp = new DDP(validOptions);
+
+      listen(ddp.socket, 'open', () => {
+        ddp.socket.emit('message:in', { msg: 'connected' });
+      });
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg === 'ping') {
+          ddp.socket.emit('message:in', { msg: 'pong', id: message.id });
+        }
+      });
+      listen(ddp, 'status', (status) => {
+        if (status.rtt !== undefined) {
+          expect(status.status).to.equal('connected');
+          expect(status.rtt).to.be.a('number');
+          done();
+        }
+      });
+      ddp.connect();
+    });
+    it('closes the socket, if the heartbeat is not answered', function (done) {
+      validOptions.autoConnect = false;
+      validOptions.heartbeatInterval = 10;
+      validOptions.heartbeatTimeout = 10;
+      validOptions.reconnectInterval = 5000;
+      ddp = new DDP(validOptions);
+
+      // a dead connection does not echo the ping
+      server().message(() => {});
+      listen(ddp.socket, 'open', () => {
+        ddp.socket.emit('message:in', { msg: 'connected' });
+      });
+      listen(ddp, 'status', (status) => {
+        if (status.status === 'waiting') {
+          server().message();
+          expect(status.reason).to.equal('heartbeat timeout');
+          done();
+        }
+      });
+      ddp.connect();
+    });
+    it('is offline after disconnect', function () {
+      validOptions.autoConnect = false;
+      ddp = new DDP(validOptions);
+      ddp.connect();
+      ddp.disconnect();
+      expect(ddp.connectionStatus.status).to.equal('offline');
+    });
+    it('has failed if the socket cannot be created', function () {
+      validOptions.autoConnect = false;
+      validOptions.SocketConstructor = function () {
+        throw new Error('invalid url');
+      };
+      ddp = new DDP(validOptions);
+      expect(() => ddp.connect()).to.throw('invalid url');
+      expect(ddp.connectionStatus).to.deep.equal({
+        status: 'failed',
+        connected: false,
+        retryCount: 0,
+        reason: 'invalid url',
+      });
+      ddp = null;
+    });
+  });
+
   describe('events', function () {
     it('emits custom events', function (done) {
       ddp = new DDP(validOptions);
@@ -237,6 +420,183 @@ describe('ddp', function () {
         ddp.socket.emit('message:in', { msg: 'connected' });
       });
     });
+    it('holds back later methods until a wait method returned', function (done) {
+      validOptions.autoConnect = false;
+      validOptions.autoReconnect = false;
+      ddp = new DDP(validOptions);
+
+      const sent = [];
+      const waitId = ddp.method('first', [], { wait: true });
+      ddp.method('second', []);
+
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg !== 'method') return;
+        sent.push(message.method);
+        if (message.method === 'first') {
+          setTimeout(() => {
+            expect(sent).to.deep.equal(['first']);
+            ddp.socket.emit('message:in', { msg: 'result', id: waitId });
+          }, 20);
+        }
+        if (message.method === 'second') {
+          expect(sent).to.deep.equal(['first', 'second']);
+          done();
+        }
+      });
+
+      listen(ddp.socket, 'open', () => {
+        ddp.socket.emit('message:in', { msg: 'connected' });
+      });
+      ddp.connect();
+    });
+    it('sends subs, while methods are held back by a wait method', async function () {
+      validOptions.autoConnect = false;
+      validOptions.autoReconnect = false;
+      ddp = new DDP(validOptions);
+
+      const sent = [];
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg === 'method') sent.push(message.method);
+        if (message.msg === 'sub' || message.msg === 'unsub') {
+          sent.push(message.msg);
+        }
+      });
+      await new Promise((resolve) => {
+        listen(ddp.socket, 'open', resolve);
+        ddp.connect();
+      });
+      ddp.socket.emit('message:in', { msg: 'connected' });
+      const waitId = ddp.method('first', [], { wait: true });
+      ddp.method('second', []);
+      ddp.method('third', []);
+      ddp.unsub(ddp.sub('foo', []));
+      expect(sent).to.deep.equal(['first', 'sub', 'unsub']);
+
+      ddp.socket.emit('message:in', { msg: 'result', id: waitId });
+      expect(sent).to.deep.equal(['first', 'sub', 'unsub', 'second', 'third']);
+    });
+    it('fails noRetry methods instead of replaying them', function (done) {
+      validOptions.autoConnect = false;
+      validOptions.autoReconnect = false;
+      ddp = new DDP(validOptions);
+
+      const sent = [];
+      const results = [];
+      const id = ddp.method('once', [], { noRetry: true });
+      ddp.method('retried', []);
+
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg !== 'method') return;
+        sent.push(message.method);
+        if (sent.length !== 2) return;
+        // the connection drops and a new session starts
+        setTimeout(() => {
+          ddp.socket.emit('close', {});
+          ddp.socket.emit('message:in', { msg: 'connected', session: 'new' });
+        }, 10);
+      });
+      listen(ddp, 'result', (message) => results.push(message));
+      listen(ddp, 'connected', () => {
+        if (sent.length < 2) return;
+        expect(results.length).to.equal(1);
+        expect(results[0].id).to.equal(id);
+        expect(results[0].error.error).to.equal('invocation-failed');
+        expect(sent).to.deep.equal(['once', 'retried', 'retried']);
+        done();
+      });
+
+      listen(ddp.socket, 'open', () => {
+        ddp.socket.emit('message:in', { msg: 'connected', session: 'old' });
+      });
+      ddp.connect();
+    });
+    it('drops all methods, so they are not replayed', function (done) {
+      validOptions.autoConnect = false;
+      validOptions.autoReconnect = false;
+      ddp = new DDP(validOptions);
+
+      const sent = [];
+      ddp.method('sent', []);
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg !== 'method') return;
+        sent.push(message.method);
+        if (message.method !== 'sent') return;
+        setTimeout(() => {
+          // held back, until the sent method returned
+          ddp.method('queued', [], { wait: true });
+          ddp.clearPendingMethods();
+          ddp.socket.emit('message:in', { msg: 'connected', session: 'new' });
+          expect(sent).to.deep.equal(['sent']);
+          expect(ddp.messageQueue.queue).to.deep.equal([]);
+          done();
+        });
+      });
+      listen(ddp.socket, 'open', () => {
+        ddp.socket.emit('message:in', { msg: 'connected', session: 'old' });
+      });
+      ddp.connect();
+    });
+    it('replays right away on a new session, if no login is pending', async function () {
+      validOptions.autoConnect = false;
+      validOptions.autoReconnect = false;
+      validOptions.deferReplayUntilLogin = true;
+      ddp = new DDP(validOptions);
+
+      const sent = [];
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg === 'method') sent.push(message.method);
+        if (message.msg === 'sub') sent.push(message.name);
+      });
+      await new Promise((resolve) => {
+        listen(ddp.socket, 'open', resolve);
+        ddp.connect();
+      });
+      ddp.socket.emit('message:in', { msg: 'connected', session: 'old' });
+      ddp.method('foo', []);
+      ddp.sub('bar', []);
+
+      ddp.socket.emit('close', {});
+      ddp.socket.emit('message:in', { msg: 'connected', session: 'new' });
+      expect(sent).to.deep.equal(['foo', 'bar']);
+      await tick();
+      expect(sent).to.deep.equal(['foo', 'bar', 'foo', 'bar']);
+    });
+    it('resends a pending login first and replays the other methods after its result', async function () {
+      validOptions.autoConnect = false;
+      validOptions.autoReconnect = false;
+      validOptions.deferReplayUntilLogin = true;
+      ddp = new DDP(validOptions);
+
+      const sent = [];
+      listen(ddp.socket, 'message:out', (message) => {
+        if (message.msg === 'method') sent.push(message.method);
+      });
+      await new Promise((resolve) => {
+        listen(ddp.socket, 'open', resolve);
+        ddp.connect();
+      });
+      ddp.socket.emit('message:in', { msg: 'connected', session: 'old' });
+      const loginId = ddp.method('login', [{ resume: 'token' }]);
+      ddp.method('foo', []);
+
+      ddp.socket.emit('close', {});
+      ddp.socket.emit('message:in', { msg: 'connected', session: 'new' });
+      await tick();
+      expect(sent).to.deep.equal(['login', 'foo', 'login']);
+
+      ddp.socket.emit('message:in', { msg: 'result', id: loginId });
+      expect(sent).to.deep.equal(['login', 'foo', 'login', 'foo']);
+    });
+    it('cancels a method that has not been sent yet', function () {
+      validOptions.autoConnect = false;
+      validOptions.autoReconnect = false;
+      ddp = new DDP(validOptions);
+
+      const id = ddp.method('foo', []);
+      expect(ddp.cancelMethod(id)).to.equal(true);
+      expect(ddp.cancelMethod(id)).to.equal(false);
+      expect(ddp.messageQueue.queue).to.deep.equal([]);
+    });
   });
   describe('sub/unsub', function () {
     it('handles subscriptions', function () {
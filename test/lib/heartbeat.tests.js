@@ -0,0 +1,56 @@
+import Heartbeat from '../../lib/heartbeat';
+import { expect } from 'chai';
+
+describe('heartbeat', function () {
+  let heartbeat;
+
+  afterEach(function () {
+    heartbeat?.stop();
+  });
+
+  it('sends a ping after the interval and measures the round-trip', function (done) {
+    heartbeat = new Heartbeat({
+      interval: 10,
+      timeout: 100,
+      sendPing: (id) => {
+        setTimeout(() => {
+          const rtt = heartbeat.pongReceived(id);
+          heartbeat.messageReceived();
+          expect(rtt).to.be.within(0, 100);
+          expect(heartbeat.pongReceived(id)).to.equal(undefined);
+          done();
+        }, 5);
+      },
+      onTimeout: () => done(new Error('should not time out')),
+    });
+    heartbeat.start();
+  });
+  it('times out, if no message arrives after the ping', function (done) {
+    let pings = 0;
+    heartbeat = new Heartbeat({
+      interval: 10,
+      timeout: 10,
+      sendPing: () => pings++,
+      onTimeout: () => {
+        expect(pings).to.equal(1);
+        done();
+      },
+    });
+    heartbeat.start();
+  });
+  it('postpones the ping while messages arrive', function (done) {
+    heartbeat = new Heartbeat({
+      interval: 20,
+      timeout: 10,
+      sendPing: () => done(new Error('should not ping')),
+      onTimeout: () => done(new Error('should not time out')),
+    });
+    heartbeat.start();
+    const timer = setInterval(() => heartbeat.messageReceived(), 5);
+    setTimeout(() => {
+      clearInterval(timer);
+      heartbeat.stop();
+      done();
+    }, 60);
+  });
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { applyModifier } from '../../lib/modifier';
+
+describe('modifier', function () {
+  describe(applyModifier.name, function () {
+    const doc = { _id: 'a', title: 'title', meta: { tags: ['x'], rank: 1 } };
+
+    it('sets and unsets fields, including dotted paths', function () {
+      expect(
+        applyModifier(doc, {
+          $set: { title: 'changed', 'meta.rank': 2, 'info.new': true },
+          $unset: { 'meta.tags': '' },
+        })
+      ).to.deep.equal({
+        _id: 'a',
+        title: 'changed',
+        meta: { rank: 2 },
+        info: { new: true },
+      });
+      expect(doc.meta.tags).to.deep.equal(['x']);
+    });
+
+    it('increments numbers', function () {
+      expect(
+        applyModifier(doc, { $inc: { 'meta.rank': 2, views: 1 } })
+      ).to.deep.include({ meta: { tags: ['x'], rank: 3 }, views: 1 });
+      expect(() => applyModifier(doc, { $inc: { title: 1 } })).to.throw(
+        'Cannot apply $inc to a non-number'
+      );
+    });
+
+    it('pushes, adds to sets and pulls array items', function () {
+      const list = { _id: 'b', items: [1, { id: 2, n: 'two' }] };
+      expect(
+        applyModifier(list, { $push: { items: { $each: [3, 3] } } }).items
+      ).to.deep.equal([1, { id: 2, n: 'two' }, 3, 3]);
+      expect(
+        applyModifier(list, { $addToSet: { items: { $each: [1, 4] } } }).items
+      ).to.deep.equal([1, { id: 2, n: 'two' }, 4]);
+      expect(
+        applyModifier(list, { $pull: { items: { id: 2 } } }).items
+      ).to.deep.equal([1]);
+      expect(applyModifier(list, { $push: { other: 1 } }).other).to.deep.equal([
+        1,
+      ]);
+      expect(() => applyModifier(list, { $push: { _id: 1 } })).to.throw(
+        'The _id field cannot be changed'
+      );
+    });
+
+    it('pulls the items matching a condition', function () {
+      const scores = {
+        _id: 'a',
+        scores: [4, 6, 8],
+        items: [{ n: 1 }, { n: 5 }],
+      };
+      expect(
+        applyModifier(scores, { $pull: { scores: { $gte: 6 } } }).scores
+      ).to.deep.equal([4]);
+      expect(
+        applyModifier(scores, { $pull: { scores: { $in: [4, 8] } } }).scores
+      ).to.deep.equal([6]);
+      expect(
+        applyModifier(scores, { $pull: { items: { n: { $gt: 2 } } } }).items
+      ).to.deep.equal([{ n: 1 }]);
+    });
+
+    it('replaces the document, but keeps the _id', function () {
+      expect(applyModifier(doc, { title: 'replaced' })).to.deep.equal({
+        _id: 'a',
+        title: 'replaced',
+      });
+    });
+
+    it('rejects invalid modifiers', function () {
+      expect(() => applyModifier(doc, { $set: {}, title: 'x' })).to.throw(
+        'cannot have both modifier and non-modifier fields'
+      );
+      expect(() => applyModifier(doc, { $rename: { a: 'b' } })).to.throw(
+        'Unsupported modifier $rename'
+      );
+      expect(() => applyModifier(doc, { $set: { _id: 'b' } })).to.throw(
+        'The _id field cannot be changed'
+      );
+    });
+  });
+});
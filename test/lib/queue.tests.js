@@ -18,4 +18,28 @@ describe('queue', function () {
     q.empty();
     expect(q.queue.length).to.equal(0);
   });
+  it('continues with the next elements after a skipped one', function () {
+    const consumed = [];
+    const q = new Queue((obj, skipped) => {
+      if (obj.held) return 'skip';
+      consumed.push([obj.id, ...skipped.map((el) => el.id)]);
+      return true;
+    });
+    q.push({ id: 'foo', held: true });
+    q.push({ id: 'bar' });
+    expect(consumed).to.deep.equal([['bar', 'foo']]);
+    expect(q.queue.map((el) => el.id)).to.deep.equal(['foo']);
+
+    q.queue[0].held = false;
+    q.process();
+    expect(consumed).to.deep.equal([['bar', 'foo'], ['foo']]);
+    expect(q.queue).to.deep.equal([]);
+  });
+  it('removes elements by predicate', function () {
+    const q = new Queue(() => false);
+    q.push({ id: 'foo' });
+    q.push({ id: 'bar' });
+    expect(q.remove((el) => el.id === 'foo')).to.equal(1);
+    expect(q.queue).to.deep.equal([{ id: 'bar' }]);
+  });
 });
@@ -1,4 +1,5 @@
 import Random from '../../lib/Random';
+import RandomStream from '../../lib/RandomStream';
 import { expect } from 'chai';
 
 describe('Random', function () {
@@ -19,4 +20,31 @@ describe('Random', function () {
       expect(regex.test(id)).to.equal(true);
     }
   });
+  it('generates hex strings of given length', function () {
+    for (let i = 0; i < 41; i++) {
+      const hex = Random.hexString(i);
+      expect(hex.length).to.equal(i);
+      expect(/^[0-9a-f]*$/.test(hex)).to.equal(true);
+    }
+  });
+  it('creates deterministic generators, compatible with Meteor', function () {
+    const random = Random.createWithSeeds(0);
+    expect(random.id()).to.equal('cp9hWvhg8GSvuZ9os');
+    expect(random.id()).to.equal('3f3k6Xo7rrHCifQhR');
+    expect(random.id()).to.equal('shxDnjWWmnKPEoLhM');
+    expect(() => Random.createWithSeeds()).to.throw('No seeds were provided');
+  });
+  it('creates named sequences from a seed', function () {
+    const a = new RandomStream('seed');
+    const b = new RandomStream(() => 'seed');
+    expect(a.sequence('/collection/foo').id()).to.equal(
+      b.sequence('/collection/foo').id()
+    );
+    expect(a.sequence('/collection/bar').id()).to.not.equal(
+      a.sequence('/collection/foo').id()
+    );
+    expect(a.sequence('/collection/bar')).to.equal(
+      a.sequence('/collection/bar')
+    );
+  });
 });
@@ -0,0 +1,41 @@
+import ReconnectScheduler from '../../lib/scheduler';
+import { expect } from 'chai';
+
+describe('scheduler', function () {
+  let scheduler;
+
+  afterEach(function () {
+    scheduler?.cancel();
+  });
+
+  it('grows the delay exponentially up to the max', function () {
+    scheduler = new ReconnectScheduler({
+      base: 100,
+      max: 1000,
+      multiplier: 3,
+      jitter: 0,
+    });
+    expect(
+      [0, 1, 2, 3].map((attempt) => scheduler.delay(attempt))
+    ).to.deep.equal([100, 300, 900, 1000]);
+  });
+  it('spreads the delay by the jitter', function () {
+    scheduler = new ReconnectScheduler({ base: 1000, jitter: 0.5 });
+    for (let i = 0; i < 20; i++) {
+      const delay = scheduler.delay(0);
+      expect(delay).to.be.within(750, 1250);
+    }
+  });
+  it('replaces the pending attempt and can be cancelled', function (done) {
+    scheduler = new ReconnectScheduler();
+    scheduler.schedule(() => done(new Error('should be replaced')), 10);
+    scheduler.schedule(() => done(new Error('should be cancelled')), 10);
+    expect(scheduler.isScheduled).to.equal(true);
+    scheduler.cancel();
+    expect(scheduler.isScheduled).to.equal(false);
+    scheduler.schedule(() => {
+      expect(scheduler.isScheduled).to.equal(false);
+      done();
+    }, 20);
+  });
+});
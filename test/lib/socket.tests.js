@@ -0,0 +1,27 @@
+import Socket from '../../lib/socket';
+import { WebSocket } from 'mock-socket';
+import { expect } from 'chai';
+
+describe('socket', function () {
+  it('force-closes without waiting for the closing handshake', function (done) {
+    const socket = new Socket(WebSocket, 'ws://localhost:3000/websocket');
+    socket.on('open', () => {
+      let closed = 0;
+      socket.on('close', (event) => {
+        closed++;
+        expect(event).to.deep.equal({
+          reason: 'heartbeat timeout',
+          wasClean: false,
+        });
+      });
+      socket.forceClose('heartbeat timeout');
+      expect(closed).to.equal(1);
+      // the raw socket's close event is not emitted again
+      setTimeout(() => {
+        expect(closed).to.equal(1);
+        done();
+      }, 20);
+    });
+    socket.open();
+  });
+});
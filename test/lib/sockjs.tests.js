@@ -0,0 +1,195 @@
+import { expect } from 'chai';
+import { createSockJSTransport, toSockJSUrl } from '../../lib/sockjs';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('sockjs', function () {
+  let requests;
+
+  class FakeXMLHttpRequest {
+    constructor() {
+      this.readyState = 0;
+      this.status = 0;
+      this.responseText = '';
+      requests.push(this);
+    }
+    open(method, url) {
+      this.method = method;
+      this.url = url;
+    }
+    setRequestHeader() {}
+    send(body) {
+      this.body = body;
+    }
+    abort() {
+      this.aborted = true;
+    }
+    respond(text, { done = false, status = 200 } = {}) {
+      this.status = status;
+      this.responseText += text;
+      this.readyState = done ? 4 : 3;
+      this.onprogress && this.onprogress();
+      this.onreadystatechange && this.onreadystatechange();
+    }
+  }
+
+  let sockets;
+
+  class FakeWebSocket {
+    constructor(url) {
+      this.url = url;
+      this.sent = [];
+      sockets.push(this);
+    }
+    send(data) {
+      this.sent.push(data);
+    }
+    close() {
+      this.closed = true;
+    }
+  }
+
+  class BlockedWebSocket extends FakeWebSocket {
+    constructor(url) {
+      super(url);
+      setTimeout(() => this.onclose({ code: 1006 }), 0);
+    }
+  }
+
+  beforeEach(() => {
+    requests = [];
+    sockets = [];
+  });
+
+  describe(toSockJSUrl.name, function () {
+    it('returns the sockjs url of the server', function () {
+      expect(toSockJSUrl('https://example.com')).to.equal(
+        'https://example.com/sockjs'
+      );
+      expect(toSockJSUrl('http://example.com/')).to.equal(
+        'http://example.com/sockjs'
+      );
+      expect(toSockJSUrl('wss://example.com/websocket')).to.equal(
+        'https://example.com/sockjs'
+      );
+      expect(toSockJSUrl('https://example.com/sockjs')).to.equal(
+        'https://example.com/sockjs'
+      );
+    });
+  });
+
+  it('frames messages over a websocket', async function () {
+    const Transport = createSockJSTransport({ WebSocket: FakeWebSocket });
+    const transport = new Transport('https://example.com');
+    const received = [];
+    transport.onmessage = ({ data }) => received.push(data);
+    await tick();
+
+    const [socket] = sockets;
+    expect(socket.url).to.match(
+      /^wss:\/\/example\.com\/sockjs\/\d{3}\/\w+\/websocket$/
+    );
+    socket.onmessage({ data: 'o' });
+    expect(transport.protocol).to.equal('websocket');
+    transport.send('{"msg":"connect"}');
+    expect(socket.sent).to.deep.equal(['["{\\"msg\\":\\"connect\\"}"]']);
+
+    socket.onmessage({ data: 'h' });
+    socket.onmessage({ data: 'a["{\\"msg\\":\\"connected\\"}"]' });
+    expect(received).to.deep.equal(['{"msg":"connected"}']);
+  });
+
+  it('falls back to xhr streaming, if websockets are blocked', async function () {
+    const Transport = createSockJSTransport({
+      WebSocket: BlockedWebSocket,
+      XMLHttpRequest: FakeXMLHttpRequest,
+    });
+    const transport = new Transport('https://example.com');
+    const opened = [];
+    const received = [];
+    transport.onopen = () => opened.push(transport.protocol);
+    transport.onmessage = ({ data }) => received.push(data);
+    // the websocket closes first
+    await tick();
+    await tick();
+
+    const [stream] = requests;
+    expect(stream.method).to.equal('POST');
+    expect(stream.url).to.match(/\/sockjs\/\d{3}\/\w+\/xhr_streaming$/);
+    stream.respond(`${'h'.repeat(2048)}\no\na["first",`);
+    expect(opened).to.deep.equal(['xhr-streaming']);
+    stream.respond('"second"]\n');
+    expect(received).to.deep.equal(['first', 'second']);
+
+    transport.send('a');
+    transport.send('b');
+    const sender = requests[1];
+    expect(sender.url).to.match(/\/xhr_send$/);
+    expect(JSON.parse(sender.body)).to.deep.equal(['a']);
+    sender.respond('', { done: true, status: 204 });
+    expect(JSON.parse(requests[2].body)).to.deep.equal(['b']);
+
+    // the server ends the stream, so the next request continues it
+    stream.respond('', { done: true });
+    expect(requests[3].url).to.equal(stream.url);
+  });
+
+  it('tries the next protocol, if the websocket does not open in time', async function () {
+    const Transport = createSockJSTransport({
+      WebSocket: FakeWebSocket,
+      XMLHttpRequest: FakeXMLHttpRequest,
+      connectTimeout: 10,
+    });
+    const transport = new Transport('https://example.com');
+    const opened = [];
+    transport.onopen = () => opened.push(transport.protocol);
+    await tick();
+    expect(sockets).to.have.length(1);
+    expect(requests).to.have.length(0);
+
+    while (!requests.length) await tick();
+    expect(sockets[0].closed).to.equal(true);
+    expect(requests[0].url).to.match(/\/xhr_streaming$/);
+    // the abandoned websocket is ignored
+    sockets[0].onmessage({ data: 'o' });
+    expect(opened).to.deep.equal([]);
+    requests[0].respond('o\n');
+    expect(opened).to.deep.equal(['xhr-streaming']);
+    transport.close();
+  });
+
+  it('closes with the code of the close frame', function (done) {
+    const Transport = createSockJSTransport({
+      protocols: ['xhr-polling'],
+      XMLHttpRequest: FakeXMLHttpRequest,
+    });
+    const transport = new Transport('https://example.com');
+    transport.onclose = (event) => {
+      expect(event).to.deep.equal({
+        code: 3000,
+        reason: 'Go away!',
+        wasClean: true,
+      });
+      expect(requests).to.have.length(2);
+      done();
+    };
+    tick().then(() => {
+      expect(requests[0].url).to.match(/\/xhr$/);
+      requests[0].respond('o\n', { done: true });
+      requests[1].respond('c[3000,"Go away!"]\n', { done: true });
+    });
+  });
+
+  it('fails, if no protocol is available', function (done) {
+    const Transport = createSockJSTransport({
+      protocols: ['websocket'],
+      WebSocket: BlockedWebSocket,
+    });
+    const transport = new Transport('https://example.com');
+    transport.onclose = (event) => {
+      expect(event.code).to.equal(2000);
+      expect(event.wasClean).to.equal(false);
+      done();
+    };
+  });
+});
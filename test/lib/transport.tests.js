@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import DDP from '../../lib/ddp';
+import { createLoopbackTransport } from '../../lib/transport';
+
+describe('transport', function () {
+  const endpoint = 'ws://loopback/websocket';
+
+  describe(createLoopbackTransport.name, function () {
+    it('connects the peer before opening', function (done) {
+      const events = [];
+      const Transport = createLoopbackTransport((peer) => {
+        expect(peer.endpoint).to.equal(endpoint);
+        events.push('connection');
+      });
+      const transport = new Transport(endpoint);
+      transport.onopen = () => {
+        expect(events).to.deep.equal(['connection']);
+        done();
+      };
+    });
+
+    it('delivers messages both ways', function (done) {
+      const Transport = createLoopbackTransport((peer) => {
+        peer.onmessage = (message) => {
+          expect(message).to.deep.equal({ msg: 'ping', id: '1' });
+          peer.send({ msg: 'pong', id: '1' });
+        };
+      });
+      const transport = new Transport(endpoint);
+      transport.onopen = () => transport.send('{"msg":"ping","id":"1"}');
+      transport.onmessage = ({ data }) => {
+        expect(JSON.parse(data)).to.deep.equal({ msg: 'pong', id: '1' });
+        done();
+      };
+    });
+
+    it('notifies both sides, when the client closes', function (done) {
+      let peerClosed = false;
+      const Transport = createLoopbackTransport((peer) => {
+        peer.onclose = () => {
+          peerClosed = true;
+        };
+      });
+      const transport = new Transport(endpoint);
+      transport.onopen = () => transport.close();
+      transport.onclose = (event) => {
+        expect(peerClosed).to.equal(true);
+        expect(event.wasClean).to.equal(true);
+        expect(() => transport.send('{}')).to.throw('not open');
+        done();
+      };
+    });
+
+    it('closes the client, when the peer closes', function (done) {
+      const Transport = createLoopbackTransport((peer) => {
+        peer.close(4000, 'bye');
+      });
+      const transport = new Transport(endpoint);
+      transport.onclose = (event) => {
+        expect(event.code).to.equal(4000);
+        expect(event.reason).to.equal('bye');
+        done();
+      };
+    });
+  });
+
+  it('runs DDP against a fake server', function (done) {
+    const SocketConstructor = createLoopbackTransport((peer) => {
+      peer.onmessage = (message) => {
+        if (message.msg === 'connect') {
+          peer.send({ msg: 'connected', session: 'session-1' });
+        }
+        if (message.msg === 'method') {
+          peer.send({ msg: 'result', id: message.id, result: message.params });
+        }
+      };
+    });
+    const ddp = new DDP({ endpoint, SocketConstructor });
+    ddp.on('connected', () => {
+      const id = ddp.method('echo', [1, 2]);
+      ddp.on('result', (message) => {
+        expect(message.id).to.equal(id);
+        expect(message.result).to.deep.equal([1, 2]);
+        ddp.disconnect();
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { expect } from 'chai';
+import Data from '../../src/Data';
+import call, {
+  apply,
+  callAsync,
+  failPendingCalls,
+  receiveResult,
+} from '../../src/Call';
+
+describe('Call', function () {
+  let originalDdp;
+  let sent;
+  let cancelled;
+
+  beforeEach(function () {
+    originalDdp = Data.ddp;
+    sent = [];
+    cancelled = [];
+    Data.ddp = {
+      method: (name, params, options) => {
+        const id = String(sent.length);
+        sent.push({ id, name, params, options });
+        return id;
+      },
+      cancelMethod: (id) => {
+        cancelled.push(id);
+        return true;
+      },
+    };
+  });
+
+  afterEach(function () {
+    Data.ddp = originalDdp;
+    Data.calls.splice(0, Data.calls.length);
+  });
+
+  const respond = (id, error, result) => {
+    const entry = Data.calls.find((c) => c.id === id);
+    entry.callback(error, result);
+  };
+
+  describe(call.name, function () {
+    it('sends the method and registers the trailing callback', function (done) {
+      call('foo', 1, 2, (err, res) => {
+        expect(err).to.equal(undefined);
+        expect(res).to.equal('bar');
+        done();
+      });
+      expect(sent[0]).to.deep.include({ id: '0', name: 'foo', params: [1, 2] });
+      respond('0', undefined, 'bar');
+    });
+    it('throws if DDP is not initialized', function () {
+      Data.ddp = null;
+      expect(() => call('foo')).to.throw('DDP is not initialized');
+    });
+    it('accepts an AbortSignal before the callback', function () {
+      const controller = new AbortController();
+      call('foo', 1, controller.signal, () => {
+        expect.fail('callback should not be invoked');
+      });
+      expect(sent[0].params).to.deep.equal([1]);
+      controller.abort();
+      expect(Data.calls.length).to.equal(0);
+      expect(cancelled).to.deep.equal(['0']);
+    });
+    it('does not send the method if the signal is already aborted', function () {
+      const controller = new AbortController();
+      controller.abort();
+      call('foo', controller.signal);
+      expect(sent.length).to.equal(0);
+      expect(Data.calls.length).to.equal(0);
+    });
+  });
+
+  describe(apply.name, function () {
+    it('passes wait and noRetry to DDP', function () {
+      apply('foo', [1], { wait: true, noRetry: true });
+      expect(sent[0].params).to.deep.equal([1]);
+      expect(sent[0].options).to.deep.equal({ wait: true, noRetry: true });
+    });
+    it('accepts a callback in place of options', function (done) {
+      apply('foo', [], (err, res) => {
+        expect(res).to.equal(1);
+        done();
+      });
+      respond('0', undefined, 1);
+    });
+    it('registers onResultReceived on the call', function () {
+      const onResultReceived = () => {};
+      apply('foo', [], { onResultReceived });
+      expect(Data.calls[0].onResultReceived).to.equal(onResultReceived);
+    });
+    it('removes the call on abort and clears its timeout', function (done) {
+      const controller = new AbortController();
+      apply('foo', [], { timeout: 10, signal: controller.signal }, () => {
+        done(new Error('callback should not be invoked'));
+      });
+      controller.abort();
+      expect(Data.calls.length).to.equal(0);
+      expect(cancelled).to.deep.equal(['0']);
+      setTimeout(done, 20);
+    });
+    it('ignores an abort after the call completed', function () {
+      const controller = new AbortController();
+      let results = 0;
+      apply('foo', [], { signal: controller.signal }, () => results++);
+      respond('0', undefined, 1);
+      controller.abort();
+      expect(results).to.equal(1);
+      expect(cancelled).to.deep.equal([]);
+    });
+    it('fails the callback after the timeout', function (done) {
+      apply('foo', [], { timeout: 10 }, (err) => {
+        expect(err.error).to.equal('timeout');
+        expect(Data.calls.length).to.equal(0);
+        expect(cancelled).to.deep.equal(['0']);
+        done();
+      });
+    });
+  });
+
+  describe(callAsync.name, function () {
+    it('resolves with the method result', async function () {
+      const promise = callAsync('foo', { a: 1 });
+      expect(sent[0].params).to.deep.equal([{ a: 1 }]);
+      respond('0', undefined, { ok: true });
+      expect(await promise).to.deep.equal({ ok: true });
+    });
+    it('does not treat a trailing function as callback', function () {
+      const fn = () => {};
+      callAsync('foo', fn);
+      expect(sent[0].params).to.deep.equal([fn]);
+    });
+    it('rejects with a Meteor-style error', async function () {
+      const promise = callAsync('foo');
+      respond('0', { error: 403, reason: 'denied', details: { x: 1 } });
+      try {
+        await promise;
+        expect.fail('should reject');
+      } catch (e) {
+        expect(e).to.be.instanceOf(Error);
+        expect(e.message).to.equal('denied [403]');
+        expect(e.error).to.equal(403);
+        expect(e.reason).to.equal('denied');
+        expect(e.details).to.deep.equal({ x: 1 });
+      }
+    });
+    it('rejects with connection-lost when pending calls are failed', async function () {
+      const promise = callAsync('foo');
+      respond('0', {
+        error: 'connection-lost',
+        reason: 'DDP disconnected',
+        message: 'DDP disconnected [connection-lost]',
+      });
+      try {
+        await promise;
+        expect.fail('should reject');
+      } catch (e) {
+        expect(e.error).to.equal('connection-lost');
+        expect(e.message).to.equal('DDP disconnected [connection-lost]');
+      }
+    });
+    it('rejects with an aborted error', async function () {
+      const controller = new AbortController();
+      const promise = callAsync('foo', 1, controller.signal);
+      expect(sent[0].params).to.deep.equal([1]);
+      controller.abort();
+      try {
+        await promise;
+        expect.fail('should reject');
+      } catch (e) {
+        expect(e.error).to.equal('aborted');
+        expect(Data.calls.length).to.equal(0);
+      }
+    });
+    it('rejects without sending if the signal is already aborted', async function () {
+      const controller = new AbortController();
+      controller.abort();
+      try {
+        await callAsync('foo', controller.signal);
+        expect.fail('should reject');
+      } catch (e) {
+        expect(e.error).to.equal('aborted');
+        expect(sent.length).to.equal(0);
+      }
+    });
+    it('rejects if DDP is not initialized', async function () {
+      Data.ddp = null;
+      try {
+        await callAsync('foo');
+        expect.fail('should reject');
+      } catch (e) {
+        expect(e.message).to.include('DDP is not initialized');
+      }
+    });
+  });
+
+  describe(failPendingCalls.name, function () {
+    it('fails the calls with connection-lost', function (done) {
+      call('foo', (err) => {
+        expect(err.error).to.equal('connection-lost');
+        expect(Data.calls.length).to.equal(0);
+        done();
+      });
+      failPendingCalls(Data.calls);
+    });
+    it('completes calls with their result, if it arrived already', function (done) {
+      call('foo', (err, res) => {
+        expect(err).to.equal(undefined);
+        expect(res).to.equal('bar');
+        done();
+      });
+      // the result waits for the updated message, which is lost with the connection
+      receiveResult(Data.calls, { id: '0', result: 'bar' }, true);
+      expect(Data.calls.length).to.equal(1);
+      failPendingCalls(Data.calls);
+    });
+  });
+});
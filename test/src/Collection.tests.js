@@ -7,6 +7,8 @@ import DDP from '../../lib/ddp';
 import Random from '../../lib/Random';
 import { server } from '../hooks/mockServer';
 import Tracker from '../../src/Tracker';
+import { methodDataUpdated, rollbackStubWrites } from '../../src/MethodStubs';
+import { applyAdded, applyChanged } from '../../src/Collection';
 
 const Collection = Mongo.Collection;
 const objectProps = props({});
@@ -32,17 +34,21 @@ const defaultProps = [
 ];
 
 describe('Collection', function () {
+  const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
   // for proper collection tests we need the server to be active
 
   before(function () {
     if (!Data.ddp) {
-      Data.ddp = new DDP({
+      const ddp = new DDP({
         SocketConstructor: WebSocket,
         endpoint,
         autoConnect: false,
       });
-      Data.ddp.socket.on('open', () => {
-        Data.ddp.socket.emit('message:in', { msg: 'connected' });
+      Data.ddp = ddp;
+      // the mutator tests replace Data.ddp while the socket may still open
+      ddp.socket.on('open', () => {
+        ddp.socket.emit('message:in', { msg: 'connected' });
       });
       Data.ddp.connect();
 
@@ -119,4 +125,614 @@ describe('Collection', function () {
       });
     });
   });
+
+  describe('mutators', function () {
+    let originalDdp;
+    let sent;
+    let collection;
+
+    const respond = (id, error, result) => {
+      const entry = Data.calls.find((c) => c.id === id);
+      Data.calls.splice(Data.calls.indexOf(entry), 1);
+      methodDataUpdated(id);
+      entry.callback?.(error, result);
+    };
+
+    beforeEach(function () {
+      originalDdp = Data.ddp;
+      sent = [];
+      Data.ddp = {
+        method: (name, params, options) => {
+          const id = Random.id();
+          sent.push({ id, name, params, options });
+          return id;
+        },
+      };
+      collection = new Collection(Random.id());
+    });
+
+    afterEach(function () {
+      Data.ddp = originalDdp;
+      Data.calls.splice(0, Data.calls.length);
+      rollbackStubWrites();
+    });
+
+    it('inserts locally and calls the insert method', function () {
+      let result;
+      const _id = collection.insert({ title: 'local' }, (err, id) => {
+        result = { err, id };
+      });
+      expect(collection.findOne(_id).title).to.equal('local');
+      expect(sent[0].name).to.equal(`/${collection._name}/insert`);
+      expect(sent[0].params).to.deep.equal([{ title: 'local', _id }]);
+
+      respond(sent[0].id, undefined, [_id]);
+      expect(result).to.deep.equal({ err: undefined, id: _id });
+      expect(collection.findOne(_id)).to.equal(undefined);
+    });
+
+    it('rolls back a rejected insert', function () {
+      let error;
+      const _id = collection.insert({ title: 'local' }, (err) => {
+        error = err;
+      });
+      respond(sent[0].id, { error: 403, reason: 'Access denied' });
+      expect(error.error).to.equal(403);
+      expect(collection.findOne(_id)).to.equal(undefined);
+    });
+
+    it('updates locally and restores the server version, if rejected', function () {
+      collection._collection.upsert({ _id: 'a', title: 'server', done: false });
+      expect(
+        collection.update('a', { $set: { done: true } }, () => {})
+      ).to.equal(1);
+      expect(collection.findOne('a').done).to.equal(true);
+      expect(sent[0].params).to.deep.equal(['a', { $set: { done: true } }, {}]);
+
+      respond(sent[0].id, { error: 403 });
+      expect(collection.findOne('a').done).to.equal(false);
+    });
+
+    it('only updates and removes by _id', function () {
+      expect(() => collection.update({ done: false }, { $set: {} })).to.throw(
+        'Untrusted code may only update documents by ID'
+      );
+      expect(() => collection.remove({ done: false })).to.throw(
+        'Untrusted code may only remove documents by ID'
+      );
+      expect(sent).to.have.length(0);
+    });
+
+    it('upserts with a generated _id', function () {
+      const { numberAffected, insertedId } = collection.upsert(
+        { _id: 'b' },
+        { $set: { title: 'upserted' } }
+      );
+      expect(numberAffected).to.equal(1);
+      expect(insertedId).to.equal('b');
+      expect(collection.findOne('b').title).to.equal('upserted');
+      expect(sent[0].params[2]).to.deep.equal({
+        upsert: true,
+        insertedId: 'b',
+      });
+    });
+
+    it('removes locally and restores the document, if rejected', function () {
+      collection._collection.upsert({ _id: 'c', title: 'server' });
+      expect(collection.remove('c', () => {})).to.equal(1);
+      expect(collection.findOne('c')).to.equal(undefined);
+      expect(sent[0].name).to.equal(`/${collection._name}/remove`);
+
+      respond(sent[0].id, { error: 403 });
+      expect(collection.findOne('c').title).to.equal('server');
+    });
+  });
+
+  describe('local collections', function () {
+    let collection;
+
+    beforeEach(function () {
+      collection = new Collection(null);
+    });
+
+    it('inserts, updates and removes documents', function () {
+      const _id = collection.insert({ title: 'a', count: 1, tags: ['x'] });
+      expect(collection.findOne(_id).title).to.equal('a');
+      expect(() => collection.insert({ _id })).to.throw('Duplicate _id');
+
+      collection.update(_id, {
+        $inc: { count: 2 },
+        $push: { tags: 'y' },
+        $addToSet: { tags: 'x' },
+      });
+      expect(collection.findOne(_id).count).to.equal(3);
+      expect(collection.findOne(_id).tags).to.deep.equal(['x', 'y']);
+
+      collection.update(_id, { $pull: { tags: 'x' }, $unset: { title: '' } });
+      expect(collection.findOne(_id).tags).to.deep.equal(['y']);
+      expect(collection.findOne(_id)).to.not.have.property('title');
+
+      expect(collection.remove(_id)).to.equal(1);
+      expect(collection.find().count()).to.equal(0);
+    });
+
+    it('updates the first or, with multi, all matching documents', function () {
+      collection.insert({ _id: 'a', done: false });
+      collection.insert({ _id: 'b', done: false });
+
+      expect(
+        collection.update({ done: false }, { $set: { done: true } })
+      ).to.equal(1);
+      expect(collection.find({ done: true }).count()).to.equal(1);
+      expect(
+        collection.update({}, { $set: { done: false } }, { multi: true })
+      ).to.equal(2);
+      expect(collection.find({ done: false }).count()).to.equal(2);
+    });
+
+    it('upserts a document with the fields of the selector', function () {
+      const { numberAffected, insertedId } = collection.upsert(
+        { kind: 'setting' },
+        { $set: { value: 1 } }
+      );
+      expect(numberAffected).to.equal(1);
+      const { _version, ...doc } = collection.findOne(insertedId);
+      expect(doc).to.deep.equal({ _id: insertedId, kind: 'setting', value: 1 });
+
+      expect(
+        collection.upsert({ kind: 'setting' }, { $set: { value: 2 } })
+      ).to.deep.equal({ numberAffected: 1 });
+      expect(collection.find().count()).to.equal(1);
+    });
+
+    it('notifies observers and invalidates computations', function () {
+      const events = [];
+      const handle = collection.find().observe({
+        added: (doc) => events.push(`added ${doc._id}`),
+        changed: (doc) => events.push(`changed ${doc._id}`),
+        removed: (id) => events.push(`removed ${id}`),
+      });
+      let runs = 0;
+      const computation = Tracker.autorun(() => {
+        runs++;
+        collection.find().fetch();
+      });
+
+      collection.insert({ _id: 'a', count: 0 });
+      Tracker.flush();
+      collection.update('a', { $inc: { count: 1 } });
+      Tracker.flush();
+      collection.remove('a');
+      Tracker.flush();
+
+      handle.stop();
+      computation.stop();
+      expect(events).to.deep.equal(['added a', 'changed a', 'removed a']);
+      expect(runs).to.equal(4);
+    });
+
+    it('passes errors to the callback', function () {
+      collection.insert({ _id: 'a' });
+      let error;
+      collection.update('a', { $inc: { count: 'x' } }, (err) => {
+        error = err;
+      });
+      expect(error.message).to.include('$inc expects a number');
+    });
+  });
+
+  describe('observeChanges', function () {
+    let collection;
+    let events;
+    let handle;
+
+    const observe = (selector, options) => {
+      handle = collection.find(selector, options).observeChanges({
+        added: (id, fields) => events.push(['added', id, fields]),
+        changed: (id, fields) => events.push(['changed', id, fields]),
+        removed: (id) => events.push(['removed', id]),
+      });
+    };
+
+    beforeEach(function () {
+      collection = new Collection(null);
+      events = [];
+    });
+
+    afterEach(function () {
+      handle?.stop();
+    });
+
+    it('reports the current documents right away', function () {
+      collection.insert({ _id: 'a', title: 'a' });
+      observe({});
+      expect(events).to.deep.equal([['added', 'a', { title: 'a' }]]);
+    });
+
+    it('reports only the changed fields, cleared ones as undefined', function () {
+      collection.insert({ _id: 'a', title: 'a', done: false, note: 'x' });
+      observe({});
+      events = [];
+
+      collection.update('a', { $set: { done: true }, $unset: { note: '' } });
+      expect(events).to.deep.equal([
+        ['changed', 'a', { done: true, note: undefined }],
+      ]);
+      expect(Object.keys(events[0][2])).to.deep.equal(['done', 'note']);
+    });
+
+    it('reports documents entering and leaving the selector', function () {
+      collection.insert({ _id: 'a', done: false });
+      observe({ done: false });
+      events = [];
+
+      collection.update('a', { $set: { done: true } });
+      collection.insert({ _id: 'b', done: true });
+      collection.update('b', { $set: { done: false } });
+      collection.remove('b');
+      expect(events).to.deep.equal([
+        ['removed', 'a'],
+        ['added', 'b', { done: false }],
+        ['removed', 'b'],
+      ]);
+    });
+
+    it('skips changes outside of the projected fields', function () {
+      collection.insert({ _id: 'a', title: 'a', views: 0 });
+      observe({}, { fields: { title: 1 } });
+      events = [];
+
+      collection.update('a', { $inc: { views: 1 } });
+      expect(events).to.deep.equal([]);
+      collection.update('a', { $set: { title: 'b' } });
+      expect(events).to.deep.equal([['changed', 'a', { title: 'b' }]]);
+    });
+
+    it('reports changes of DDP messages and stops', function () {
+      const name = Random.id();
+      const remote = new Collection(name);
+      handle = remote.find().observeChanges({
+        added: (id, fields) => events.push(['added', id, fields]),
+        changed: (id, fields) => events.push(['changed', id, fields]),
+      });
+      applyAdded(name, 'a', { title: 'a', tag: 'x' });
+      applyChanged(name, 'a', { title: 'b' }, ['tag']);
+      handle.stop();
+      applyChanged(name, 'a', { title: 'c' });
+
+      expect(events).to.deep.equal([
+        ['added', 'a', { title: 'a', tag: 'x' }],
+        ['changed', 'a', { title: 'b', tag: undefined }],
+      ]);
+      expect(remote.findOne('a')).to.not.have.property('tag');
+    });
+  });
+
+  describe('ordered observe', function () {
+    let collection;
+    let events;
+    let handle;
+
+    beforeEach(function () {
+      collection = new Collection(null);
+      events = [];
+      ['a', 'b', 'c'].forEach((_id, rank) => collection.insert({ _id, rank }));
+    });
+
+    afterEach(function () {
+      handle?.stop();
+    });
+
+    it('reports the indices of the sorted result set', function () {
+      handle = collection.find({}, { sort: { rank: 1 } }).observe({
+        addedAt: (doc, index, before) =>
+          events.push(['addedAt', doc._id, index, before]),
+        changedAt: (doc, old, index) =>
+          events.push(['changedAt', doc._id, index]),
+        movedTo: (doc, from, to, before) =>
+          events.push(['movedTo', doc._id, from, to, before]),
+        removedAt: (doc, index) => events.push(['removedAt', doc._id, index]),
+      });
+      expect(events).to.deep.equal([
+        ['addedAt', 'a', 0, null],
+        ['addedAt', 'b', 1, null],
+        ['addedAt', 'c', 2, null],
+      ]);
+      events = [];
+
+      collection.insert({ _id: 'd', rank: 1.5 });
+      collection.update('a', { $set: { rank: 10 } });
+      collection.update('b', { $set: { title: 'b' } });
+      collection.remove('c');
+      expect(events).to.deep.equal([
+        ['addedAt', 'd', 2, 'c'],
+        ['movedTo', 'a', 0, 3, null],
+        ['changedAt', 'a', 3],
+        ['changedAt', 'b', 0],
+        ['removedAt', 'c', 2],
+      ]);
+    });
+
+    it('follows skip and limit of the cursor', function () {
+      handle = collection.find({}, { sort: { rank: 1 }, limit: 2 }).observe({
+        addedAt: (doc, index) => events.push(['addedAt', doc._id, index]),
+        removedAt: (doc, index) => events.push(['removedAt', doc._id, index]),
+      });
+      events = [];
+
+      collection.insert({ _id: 'first', rank: -1 });
+      expect(events).to.deep.equal([
+        ['removedAt', 'b', 1],
+        ['addedAt', 'first', 0],
+      ]);
+    });
+
+    it('reports moves in observeChanges with the following document', function () {
+      handle = collection
+        .find({}, { sort: { rank: 1 }, fields: { rank: 1 } })
+        .observeChanges({
+          addedBefore: (id, fields, before) =>
+            events.push(['addedBefore', id, before]),
+          movedBefore: (id, before) => events.push(['movedBefore', id, before]),
+          changed: (id, fields) => events.push(['changed', id, fields]),
+        });
+      events = [];
+
+      collection.update('c', { $set: { rank: -1 } });
+      expect(events).to.deep.equal([
+        ['movedBefore', 'c', 'a'],
+        ['changed', 'c', { rank: -1 }],
+      ]);
+    });
+  });
+
+  describe('observe with limit and skip', function () {
+    let collection;
+    let events;
+    let handle;
+
+    beforeEach(function () {
+      collection = new Collection(null);
+      events = [];
+      ['a', 'b', 'c', 'd'].forEach((_id, rank) =>
+        collection.insert({ _id, rank })
+      );
+    });
+
+    afterEach(function () {
+      handle?.stop();
+    });
+
+    const observe = (options) =>
+      collection.find({}, options).observe({
+        _suppress_initial: true,
+        added: (doc) => events.push(['added', doc._id]),
+        changed: (doc, old) => events.push(['changed', doc._id, old.rank]),
+        removed: (id) => events.push(['removed', id]),
+      });
+
+    it('reports documents, that enter or leave the window', function () {
+      handle = observe({ sort: { rank: 1 }, limit: 2 });
+
+      collection.insert({ _id: 'first', rank: -1 });
+      collection.remove('a');
+      collection.update('d', { $set: { rank: 1.5 } });
+      expect(events).to.deep.equal([
+        ['removed', 'b'],
+        ['added', 'first'],
+        ['removed', 'a'],
+        ['added', 'b'],
+      ]);
+    });
+
+    it('ignores changes outside of the window', function () {
+      handle = observe({ sort: { rank: 1 }, skip: 1, limit: 2 });
+
+      collection.update('d', { $set: { title: 'd' } });
+      collection.update('a', { $set: { title: 'a' } });
+      collection.update('b', { $set: { rank: 1.5 } });
+      expect(events).to.deep.equal([['changed', 'b', 1]]);
+    });
+
+    it('follows the sort order when a document leaves the window', function () {
+      handle = observe({ sort: { rank: -1 }, limit: 1 });
+
+      collection.update('d', { $set: { rank: 0.5 } });
+      expect(events).to.deep.equal([
+        ['removed', 'd'],
+        ['added', 'c'],
+      ]);
+    });
+  });
+
+  describe('initial observe callbacks', function () {
+    let collection;
+
+    beforeEach(function () {
+      collection = new Collection(null);
+      collection.insert({ _id: 'a', rank: 0 });
+      collection.insert({ _id: 'b', rank: 1 });
+    });
+
+    it('reports the current documents right away', function () {
+      const added = [];
+      const handle = collection
+        .find({}, { sort: { rank: -1 } })
+        .observe({ added: (doc) => added.push(doc._id) });
+      expect(added).to.deep.equal(['b', 'a']);
+      handle.stop();
+    });
+
+    it('skips the current documents with _suppress_initial', function () {
+      const added = [];
+      const handle = collection.find().observe({
+        _suppress_initial: true,
+        added: (doc) => added.push(doc._id),
+      });
+      collection.insert({ _id: 'c', rank: 2 });
+      expect(added).to.deep.equal(['c']);
+      handle.stop();
+    });
+
+    it('keeps the indices of the current documents with _suppress_initial', function () {
+      const events = [];
+      const handle = collection.find({}, { sort: { rank: 1 } }).observe({
+        _suppress_initial: true,
+        addedAt: (doc, index) => events.push(['added', doc._id, index]),
+        changedAt: (doc, old, index) =>
+          events.push(['changed', doc._id, index]),
+        removedAt: (doc, index) => events.push(['removed', doc._id, index]),
+      });
+      collection.insert({ _id: 'c', rank: 2 });
+      collection.update('b', { $set: { title: 'b' } });
+      collection.remove('a');
+      expect(events).to.deep.equal([
+        ['added', 'c', 2],
+        ['changed', 'b', 1],
+        ['removed', 'a', 0],
+      ]);
+      handle.stop();
+    });
+
+    it('stops, once the computation is invalidated', function () {
+      const added = [];
+      const computation = Tracker.autorun(() => {
+        collection.find().observe({ added: (doc) => added.push(doc._id) });
+        collection.find().observeChanges({ added: (id) => added.push(id) });
+      });
+      expect(added).to.deep.equal(['a', 'b', 'a', 'b']);
+      computation.stop();
+
+      collection.insert({ _id: 'c', rank: 2 });
+      expect(added).to.deep.equal(['a', 'b', 'a', 'b']);
+    });
+  });
+
+  describe('reactive find', function () {
+    let collection;
+    let computation;
+
+    beforeEach(function () {
+      collection = new Collection(null);
+      ['a', 'b', 'c'].forEach((_id, rank) =>
+        collection.insert({ _id, rank, title: _id })
+      );
+    });
+
+    afterEach(function () {
+      computation?.stop();
+    });
+
+    const countRuns = (selector, options) => {
+      let runs = 0;
+      computation = Tracker.autorun(() => {
+        runs++;
+        collection.find(selector, options).fetch();
+      });
+      return () => {
+        Tracker.flush();
+        return runs;
+      };
+    };
+
+    it('ignores changes of fields, that are not projected', function () {
+      const runs = countRuns({}, { fields: { rank: 1 } });
+      collection.update('a', { $set: { title: 'changed' } });
+      expect(runs()).to.equal(1);
+
+      collection.update('a', { $set: { rank: 10 } });
+      expect(runs()).to.equal(2);
+    });
+
+    it('ignores changes outside of the sorted window', function () {
+      const runs = countRuns({}, { sort: { rank: 1 }, limit: 2 });
+      collection.update('c', { $set: { title: 'changed' } });
+      collection.insert({ _id: 'd', rank: 5 });
+      expect(runs()).to.equal(1);
+
+      collection.update('c', { $set: { rank: -1 } });
+      expect(runs()).to.equal(2);
+    });
+
+    it('compares the position of the document, instead of querying again', function () {
+      const runs = countRuns({}, { sort: { rank: 1 } });
+      let queries = 0;
+      const find = collection._collection.find;
+      // the writes look up their documents without a sort
+      collection._collection.find = function (selector, options) {
+        if (options?.sort) queries++;
+        return find.call(this, selector, options);
+      };
+      collection.update('b', { $set: { rank: 1.5 } });
+      collection.insert({ _id: 'd', rank: 5 });
+      collection._collection.find = find;
+      expect(queries).to.equal(0);
+      expect(runs()).to.equal(2);
+
+      collection.update('a', { $set: { rank: 3 } });
+      expect(runs()).to.equal(3);
+    });
+
+    it('reruns, once the skipped documents move the window', function () {
+      const runs = countRuns({}, { sort: { rank: 1 }, skip: 1, limit: 1 });
+      collection.update('c', { $set: { title: 'changed' } });
+      collection.insert({ _id: 'd', rank: 5 });
+      expect(runs()).to.equal(1);
+
+      collection.update('a', { $set: { title: 'changed' } });
+      expect(runs()).to.equal(1);
+
+      collection.remove('a');
+      expect(runs()).to.equal(2);
+
+      collection.insert({ _id: 'e', rank: -1 });
+      expect(runs()).to.equal(3);
+
+      collection.update('b', { $set: { rank: 4 } });
+      expect(runs()).to.equal(4);
+    });
+
+    it('reruns, once the documents exceed the skipped ones', function () {
+      const runs = countRuns({}, { sort: { rank: 1 }, skip: 4 });
+      collection.insert({ _id: 'd', rank: 3 });
+      expect(runs()).to.equal(1);
+
+      collection.insert({ _id: 'e', rank: 4 });
+      expect(runs()).to.equal(2);
+    });
+
+    it('reruns, once a document leaves the result', function () {
+      const runs = countRuns({ rank: { $lt: 2 } });
+      collection.remove('c');
+      expect(runs()).to.equal(1);
+
+      collection.update('b', { $set: { rank: 3 } });
+      expect(runs()).to.equal(2);
+    });
+
+    it('does not rerun with reactive: false', function () {
+      const runs = countRuns({}, { reactive: false });
+      collection.remove('a');
+      expect(runs()).to.equal(1);
+    });
+
+    it('merges bursts of changes with debounceMs', async function () {
+      const runs = countRuns({}, { debounceMs: 20 });
+      collection.insert({ _id: 'd', rank: 3 });
+      await wait(10);
+      collection.insert({ _id: 'e', rank: 4 });
+      expect(runs()).to.equal(1);
+
+      await wait(30);
+      expect(runs()).to.equal(2);
+    });
+
+    it('reruns at most once per throttleMs', async function () {
+      const runs = countRuns({}, { throttleMs: 20 });
+      collection.insert({ _id: 'd', rank: 3 });
+      collection.insert({ _id: 'e', rank: 4 });
+      await wait(30);
+      expect(runs()).to.equal(2);
+    });
+  });
 });
@@ -0,0 +1,213 @@
+import { expect } from 'chai';
+import { WebSocket } from 'mock-socket';
+import Meteor from '../../src/Meteor';
+import Mongo from '../../src/Mongo';
+import Tracker from '../../src/Tracker';
+import { endpoint } from '../testHelpers';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Connection', function () {
+  let connection;
+
+  const receive = async (message) => {
+    connection.ddp.socket.emit('message:in', message);
+    await tick();
+  };
+
+  beforeEach(() => {
+    connection = Meteor.connectTo(endpoint, {
+      autoConnect: false,
+      SocketConstructor: WebSocket,
+    });
+  });
+
+  afterEach(() => {
+    connection.disconnect();
+  });
+
+  it('requires a websocket or http(s) endpoint', () => {
+    expect(() => Meteor.connectTo('localhost:3000')).to.throw(
+      'may be in the wrong format'
+    );
+  });
+
+  it('connects to the websocket of http(s) endpoints', () => {
+    const secure = Meteor.connectTo('https://example.com', {
+      autoConnect: false,
+      SocketConstructor: WebSocket,
+    });
+    expect(secure.ddp.endpoint).to.equal('wss://example.com/websocket');
+  });
+
+  it('keeps the endpoint for the sockjs transport', () => {
+    const sockjs = Meteor.connectTo('https://example.com', {
+      autoConnect: false,
+      transport: 'sockjs',
+    });
+    expect(sockjs.ddp.endpoint).to.equal('https://example.com');
+    expect(sockjs.ddp.socket.SocketConstructor).to.not.equal(WebSocket);
+  });
+
+  it('has its own DDP instance', () => {
+    expect(connection.ddp).to.not.equal(Meteor.getData().ddp);
+    expect(connection.endpoint).to.equal(endpoint);
+  });
+
+  it('keeps the documents of its collections apart', async () => {
+    const name = `connection-${Date.now()}`;
+    const remote = new Mongo.Collection(name, { connection });
+    const local = new Mongo.Collection(name);
+
+    await receive({
+      msg: 'added',
+      collection: name,
+      id: 'doc1',
+      fields: { title: 'remote' },
+    });
+    expect(remote.findOne('doc1').title).to.equal('remote');
+    expect(local.findOne('doc1')).to.equal(undefined);
+
+    await receive({
+      msg: 'changed',
+      collection: name,
+      id: 'doc1',
+      fields: { title: 'changed' },
+    });
+    expect(remote.findOne('doc1').title).to.equal('changed');
+
+    await receive({ msg: 'removed', collection: name, id: 'doc1' });
+    expect(remote.findOne('doc1')).to.equal(undefined);
+  });
+
+  it('notifies the observers of its collections only', async () => {
+    const name = `connection-${Date.now()}`;
+    const remote = new Mongo.Collection(name, { connection });
+    const local = new Mongo.Collection(name);
+    const added = { remote: [], local: [] };
+    const handles = [
+      remote.find().observe({ added: (doc) => added.remote.push(doc._id) }),
+      local.find().observe({ added: (doc) => added.local.push(doc._id) }),
+    ];
+
+    await receive({ msg: 'added', collection: name, id: 'doc1', fields: {} });
+    expect(added).to.deep.equal({ remote: ['doc1'], local: [] });
+    handles.forEach((handle) => handle.stop());
+  });
+
+  it('calls the mutation methods without simulating them locally', async () => {
+    const name = `connection-${Date.now()}`;
+    const remote = new Mongo.Collection(name, { connection });
+    const local = new Mongo.Collection(name);
+
+    const _id = remote.insert({ title: 'remote' });
+    const [message] = connection.ddp.messageQueue.queue;
+    expect(message.method).to.equal(`/${name}/insert`);
+    expect(message.params).to.deep.equal([{ title: 'remote', _id }]);
+    expect(remote.findOne(_id)).to.equal(undefined);
+    expect(local.findOne(_id)).to.equal(undefined);
+
+    await receive({
+      msg: 'added',
+      collection: name,
+      id: _id,
+      fields: { title: 'remote' },
+    });
+    expect(remote.findOne(_id).title).to.equal('remote');
+  });
+
+  it('resolves method calls with its own results', async () => {
+    const promise = connection.callAsync('remote.method', 1);
+    const [{ id }] = connection.calls;
+    expect(Meteor.getData().calls.some((c) => c.id === id)).to.equal(false);
+
+    await receive({ msg: 'result', id, result: 'done' });
+    await receive({ msg: 'updated', methods: [id] });
+    expect(await promise).to.equal('done');
+    expect(connection.calls).to.have.length(0);
+  });
+
+  it('keeps pending calls for a reconnect', async () => {
+    let error;
+    connection.call('remote.method', (err) => {
+      error = err;
+    });
+    connection.ddp.emit('disconnected', {});
+    await tick();
+    expect(error).to.equal(undefined);
+    expect(connection.calls.length).to.equal(1);
+  });
+
+  it('fails pending calls, when disconnected for good', async () => {
+    let error;
+    connection.call('remote.method', (err) => {
+      error = err;
+    });
+    connection.ddp.autoReconnect = false;
+    connection.ddp.emit('disconnected', {});
+    await tick();
+    expect(error.error).to.equal('connection-lost');
+  });
+
+  it('subscribes over its own DDP instance', async () => {
+    let readyCalled = false;
+    const handle = connection.subscribe('remote.pub', () => {
+      readyCalled = true;
+    });
+    const sub = connection.subscriptions[handle.subscriptionId];
+    expect(sub.name).to.equal('remote.pub');
+    expect(Meteor.getData().subscriptions[handle.subscriptionId]).to.equal(
+      undefined
+    );
+    expect(handle.ready()).to.equal(false);
+
+    await receive({ msg: 'ready', subs: [sub.subIdRemember] });
+    expect(handle.ready()).to.equal(true);
+    expect(readyCalled).to.equal(true);
+
+    handle.stop();
+    expect(connection.subscriptions[handle.subscriptionId]).to.equal(undefined);
+  });
+
+  it('reconciles its documents with a new session', async () => {
+    const name = `connection-${Date.now()}`;
+    const remote = new Mongo.Collection(name, { connection });
+    const handle = connection.subscribe('remote.pub');
+    const sub = connection.subscriptions[handle.subscriptionId];
+    await receive({ msg: 'added', collection: name, id: 'a', fields: {} });
+    await receive({ msg: 'added', collection: name, id: 'b', fields: {} });
+    const events = [];
+    const observer = remote.find().observe({
+      _suppress_initial: true,
+      added: (doc) => events.push(`added ${doc._id}`),
+      changed: (doc) => events.push(`changed ${doc._id}`),
+      removed: (id) => events.push(`removed ${id}`),
+    });
+
+    connection.ddp.emit('disconnected');
+    connection.ddp.emit('connected', { sessionReused: false });
+    await tick();
+    await receive({ msg: 'added', collection: name, id: 'a', fields: {} });
+    await receive({ msg: 'added', collection: name, id: 'c', fields: {} });
+    expect(remote.find().map((doc) => doc._id)).to.deep.equal(['a', 'b']);
+    expect(events).to.deep.equal([]);
+
+    await receive({ msg: 'ready', subs: [sub.subIdRemember] });
+    expect(remote.find().map((doc) => doc._id)).to.deep.equal(['a', 'c']);
+    expect(events).to.deep.equal(['removed b', 'added c']);
+    observer.stop();
+    handle.stop();
+  });
+
+  it('reports its status reactively', async () => {
+    const statuses = [];
+    const computation = Tracker.autorun(() => {
+      statuses.push(connection.status().status);
+    });
+    connection.ddp.connect();
+    await tick();
+    Tracker.flush();
+    computation.stop();
+    expect(statuses).to.deep.equal(['offline', 'connecting']);
+  });
+});
@@ -2,6 +2,20 @@ import { expect } from 'chai';
 import Meteor from '../../src/Meteor';
 import { awaitDisconnected, stub, restoreAll } from '../testHelpers';
 import DDP from '../../lib/ddp';
+import { WebSocket } from 'mock-socket';
+import EJSON from 'ejson';
+import { server } from '../hooks/mockServer';
+import Mongo from '../../src/Mongo';
+import {
+  loadPersistedCollections,
+  savePersistedCollections,
+} from '../../src/PersistentCollections';
+
+const KeyStorage = {
+  getItem: async () => {},
+  setItem: async () => {},
+  removeItem: async () => {},
+};
 
 describe('Meteor - integration', function () {
   afterEach(() => {
@@ -92,4 +106,294 @@ describe('Meteor - integration', function () {
       });
     });
   });
+
+  describe('method results', () => {
+    const connect = (options = {}) =>
+      Meteor.connect(`ws://localhost:3000/websocket`, {
+        KeyStorage,
+        NetInfo: null,
+        autoConnect: false,
+        SocketConstructor: WebSocket,
+        ...options,
+      });
+    const lastCallId = () => {
+      const calls = Meteor.getData().calls;
+      return calls[calls.length - 1].id;
+    };
+
+    afterEach(() => {
+      Meteor.disconnect();
+    });
+
+    it('delays the callback until the updated message arrived', (done) => {
+      connect();
+      const ddp = Meteor.getData().ddp;
+      let resultReceived = false;
+
+      Meteor.apply(
+        'foo',
+        [],
+        { onResultReceived: () => (resultReceived = true) },
+        (err, res) => {
+          expect(resultReceived).to.equal(true);
+          expect(res).to.equal('bar');
+          done();
+        }
+      );
+      const id = lastCallId();
+      ddp.emit('result', { msg: 'result', id, result: 'bar' });
+      setTimeout(() => {
+        expect(resultReceived).to.equal(true);
+        ddp.emit('updated', { msg: 'updated', methods: [id] });
+      }, 10);
+    });
+    it('completes when updated arrives before result', (done) => {
+      connect();
+      const ddp = Meteor.getData().ddp;
+      Meteor.call('foo', (err, res) => {
+        expect(res).to.equal(1);
+        done();
+      });
+      const id = lastCallId();
+      ddp.emit('updated', { msg: 'updated', methods: [id] });
+      ddp.emit('result', { msg: 'result', id, result: 1 });
+    });
+    it('replays pending calls, once the connection is restored', (done) => {
+      const sent = [];
+      server().message((data, _server, socket) => {
+        const message = EJSON.parse(data);
+        const send = (reply) => socket.send(EJSON.stringify(reply));
+        // the same session continues after the reconnect
+        if (message.msg === 'connect') send({ msg: 'connected', session: 's' });
+        if (message.msg !== 'method') return;
+        sent.push(message.method);
+        // the connection drops, before any result arrived
+        if (sent.length === 2) return socket.close();
+        if (message.method !== 'retried') return;
+        send({ msg: 'result', id: message.id, result: 'ok' });
+        send({ msg: 'updated', methods: [message.id] });
+      });
+      connect({ reconnectInterval: 10 });
+      const ddp = Meteor.getData().ddp;
+      let failed;
+      ddp.once('connected', () => {
+        Meteor.apply('once', [], { noRetry: true }, (err) => (failed = err));
+        Meteor.call('retried', (err, res) => {
+          server().message();
+          expect(failed.error).to.equal('invocation-failed');
+          expect(err).to.equal(undefined);
+          expect(res).to.equal('ok');
+          expect(sent).to.deep.equal(['once', 'retried', 'retried']);
+          done();
+        });
+      });
+      ddp.connect();
+    });
+    it('allows to skip waiting for updated', (done) => {
+      connect({ waitForUpdated: false });
+      const ddp = Meteor.getData().ddp;
+      Meteor.call('foo', (err, res) => {
+        expect(res).to.equal(2);
+        done();
+      });
+      ddp.emit('result', { msg: 'result', id: lastCallId(), result: 2 });
+    });
+  });
+
+  describe(Meteor.status.name, () => {
+    afterEach(() => {
+      Meteor.disconnect();
+    });
+
+    it('reactively reports the connection status', (done) => {
+      Meteor.connect(`ws://localhost:3000/websocket`, {
+        KeyStorage,
+        NetInfo: null,
+        autoConnect: false,
+        SocketConstructor: WebSocket,
+      });
+      const states = [];
+      const computation = Meteor.Tracker.autorun(() => {
+        states.push(Meteor.status().status);
+      });
+      expect(states).to.deep.equal(['offline']);
+      Meteor.getData().ddp.connect();
+      setTimeout(() => {
+        computation.stop();
+        expect(states[states.length - 1]).to.equal('connecting');
+        expect(Meteor.status()).to.deep.include({
+          connected: false,
+          retryCount: 0,
+        });
+        done();
+      }, 10);
+    });
+  });
+
+  describe('subscribe', () => {
+    beforeEach(() => {
+      Meteor.connect(`ws://localhost:3000/websocket`, {
+        KeyStorage,
+        NetInfo: null,
+        autoConnect: false,
+        SocketConstructor: WebSocket,
+      });
+    });
+
+    afterEach(() => {
+      Meteor.disconnect();
+    });
+
+    it('stops the subscription when the signal aborts', () => {
+      const controller = new AbortController();
+      let stopped = false;
+      const handle = Meteor.subscribe('abortable', 1, {
+        signal: controller.signal,
+        onStop: () => (stopped = true),
+      });
+      expect(Meteor.getData().subscriptions[handle.subscriptionId]).to.exist;
+      controller.abort();
+      expect(stopped).to.equal(true);
+      expect(Meteor.getData().subscriptions[handle.subscriptionId]).to.equal(
+        undefined
+      );
+    });
+    it('keeps a shared subscription for the callers, that did not abort', () => {
+      const controller = new AbortController();
+      const first = Meteor.subscribe('shared', { signal: controller.signal });
+      const sub = Meteor.getData().subscriptions[first.subscriptionId];
+      sub.ready = true;
+      const second = Meteor.subscribe('shared');
+      expect(second.subscriptionId).to.equal(first.subscriptionId);
+
+      controller.abort();
+      expect(Meteor.getData().subscriptions[sub.id]).to.equal(sub);
+      second.stop();
+      expect(Meteor.getData().subscriptions[sub.id]).to.equal(undefined);
+    });
+    it('drops the reference of a rerun only once, when the signal aborts', () => {
+      const controller = new AbortController();
+      const dep = new Meteor.Tracker.Dependency();
+      let handle;
+      const computation = Meteor.Tracker.autorun(() => {
+        dep.depend();
+        handle = Meteor.subscribe('rerun', { signal: controller.signal });
+      });
+      const sub = Meteor.getData().subscriptions[handle.subscriptionId];
+      sub.ready = true;
+      dep.changed();
+      Meteor.Tracker.flush();
+      dep.changed();
+      Meteor.Tracker.flush();
+      expect(handle.subscriptionId).to.equal(sub.id);
+      Meteor.subscribe('rerun');
+
+      controller.abort();
+      expect(Meteor.getData().subscriptions[sub.id]).to.equal(sub);
+      computation.stop();
+    });
+    it('removes the abort listener, once the subscription stopped', () => {
+      const controller = new AbortController();
+      const handle = Meteor.subscribe('abortable', {
+        signal: controller.signal,
+      });
+      const removed = [];
+      stub(controller.signal, 'removeEventListener', (type) =>
+        removed.push(type)
+      );
+      handle.stop();
+      expect(removed).to.deep.equal(['abort']);
+    });
+    it('does not subscribe if the signal is already aborted', () => {
+      const controller = new AbortController();
+      controller.abort();
+      const handle = Meteor.subscribe('abortable', controller.signal);
+      expect(handle.ready()).to.equal(false);
+      expect(Meteor.getData().subscriptions[handle.subscriptionId]).to.equal(
+        undefined
+      );
+    });
+  });
+
+  describe('reconciliation', () => {
+    // DDP emits its events asynchronously
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    afterEach(async () => {
+      await savePersistedCollections();
+      Meteor.disconnect();
+    });
+
+    it('connects after rehydration, unless disconnected meanwhile', async () => {
+      const storage = {
+        getItem: async () => null,
+        setItem: async () => {},
+        removeItem: async () => {},
+      };
+      new Mongo.Collection(`rehydrating-${Date.now()}`, {
+        persist: { storage },
+      });
+      let connects = 0;
+      stub(DDP.prototype, 'connect', () => connects++);
+      const options = {
+        KeyStorage,
+        NetInfo: null,
+        SocketConstructor: WebSocket,
+      };
+
+      Meteor.connect(`ws://localhost:3000/websocket`, options);
+      await loadPersistedCollections();
+      await tick();
+      expect(connects).to.equal(1);
+
+      Meteor.connect(`ws://localhost:3000/websocket`, options);
+      Meteor.disconnect();
+      await loadPersistedCollections();
+      await tick();
+      expect(connects).to.equal(1);
+    });
+    it('keeps the rehydrated documents, until a subscription is ready', async () => {
+      const name = `rehydrated-${Date.now()}`;
+      const items = {
+        [`Meteor.collection.${name}`]: EJSON.stringify([
+          { _id: 'a', title: 'offline' },
+        ]),
+      };
+      const storage = {
+        getItem: async (key) => items[key] ?? null,
+        setItem: async (key, value) => (items[key] = value),
+        removeItem: async (key) => delete items[key],
+      };
+      Meteor.connect(`ws://localhost:3000/websocket`, {
+        KeyStorage,
+        NetInfo: null,
+        autoConnect: false,
+        SocketConstructor: WebSocket,
+      });
+      const collection = new Mongo.Collection(name, { persist: { storage } });
+      await loadPersistedCollections();
+      const ddp = Meteor.getData().ddp;
+
+      // a cold start, the app has not subscribed yet
+      ddp.emit('connected', { sessionReused: false });
+      await tick();
+      expect(collection.findOne({ _id: 'a' }).title).to.equal('offline');
+
+      const handle = Meteor.subscribe('rehydrated');
+      const sub = Meteor.getData().subscriptions[handle.subscriptionId];
+      ddp.emit('added', {
+        msg: 'added',
+        collection: name,
+        id: 'b',
+        fields: { title: 'online' },
+      });
+      await tick();
+      expect(collection.find().map((doc) => doc._id)).to.deep.equal(['a']);
+
+      ddp.emit('ready', { msg: 'ready', subs: [sub.subIdRemember] });
+      await tick();
+      expect(collection.find().map((doc) => doc._id)).to.deep.equal(['b']);
+      handle.stop();
+    });
+  });
 });
@@ -0,0 +1,260 @@
+import { expect } from 'chai';
+import Data from '../../src/Data';
+import Random from '../../lib/Random';
+import call, { apply } from '../../src/Call';
+import {
+  bufferServerMessage,
+  methodDataUpdated,
+  methods,
+  rollbackStubWrites,
+} from '../../src/MethodStubs';
+import { Collection } from '../../src/Collection';
+import RandomStream from '../../lib/RandomStream';
+
+describe('MethodStubs', function () {
+  let originalDdp;
+  let sent;
+  let collection;
+
+  beforeEach(function () {
+    originalDdp = Data.ddp;
+    sent = [];
+    Data.ddp = {
+      method: (name, params, options) => {
+        const id = Random.id();
+        sent.push({ id, name, params, options });
+        return id;
+      },
+    };
+    collection = new Collection(Random.id());
+  });
+
+  afterEach(function () {
+    Data.ddp = originalDdp;
+    Data.calls.splice(0, Data.calls.length);
+    rollbackStubWrites();
+  });
+
+  const name = () => Random.id();
+
+  describe(methods.name, function () {
+    it('throws on duplicate method names', function () {
+      const method = name();
+      methods({ [method]() {} });
+      expect(() => methods({ [method]() {} })).to.throw(
+        `A method named '${method}' is already defined`
+      );
+    });
+    it('throws if a stub is not a function', function () {
+      expect(() => methods({ [name()]: 'foo' })).to.throw('must be a function');
+    });
+  });
+
+  describe('latency compensation', function () {
+    it('runs the stub locally and sends the method', function () {
+      const method = name();
+      let context;
+      methods({
+        [method](doc) {
+          context = this;
+          collection._collection.upsert(doc);
+        },
+      });
+
+      call(method, { _id: 'a', title: 'local' });
+      expect(context.isSimulation).to.equal(true);
+      expect(context.name).to.equal(method);
+      expect(sent[0].name).to.equal(method);
+      expect(collection.findOne('a').title).to.equal('local');
+    });
+    it('replaces stub writes with the server data on updated', function () {
+      const method = name();
+      collection._collection.upsert({ _id: 'b', title: 'server' });
+      methods({
+        [method]() {
+          collection._collection.upsert({ _id: 'b', title: 'local' });
+        },
+      });
+
+      call(method);
+      const { id } = sent[0];
+      const buffered = bufferServerMessage({
+        msg: 'changed',
+        collection: collection._name,
+        id: 'b',
+        fields: { title: 'confirmed' },
+      });
+      expect(buffered).to.equal(true);
+      expect(collection.findOne('b').title).to.equal('local');
+
+      methodDataUpdated(id);
+      expect(collection.findOne('b').title).to.equal('confirmed');
+      expect(
+        bufferServerMessage({
+          msg: 'changed',
+          collection: collection._name,
+          id: 'b',
+        })
+      ).to.equal(false);
+    });
+    it('removes inserted documents the server did not confirm', function () {
+      const method = name();
+      methods({
+        [method]() {
+          collection._collection.upsert({ _id: 'c', title: 'local' });
+        },
+      });
+
+      call(method);
+      methodDataUpdated(sent[0].id);
+      expect(collection.findOne('c')).to.equal(undefined);
+    });
+    it('waits for all methods that wrote a document', function () {
+      const method = name();
+      methods({
+        [method](title) {
+          collection._collection.upsert({ _id: 'd', title });
+        },
+      });
+
+      call(method, 'first');
+      call(method, 'second');
+      methodDataUpdated(sent[0].id);
+      expect(collection.findOne('d').title).to.equal('second');
+      methodDataUpdated(sent[1].id);
+      expect(collection.findOne('d')).to.equal(undefined);
+    });
+    it('rolls back pending stub writes', function () {
+      const method = name();
+      collection._collection.upsert({ _id: 'e', title: 'server' });
+      methods({
+        [method]() {
+          collection._collection.del('e');
+        },
+      });
+
+      call(method);
+      expect(collection.findOne('e')).to.equal(undefined);
+      rollbackStubWrites();
+      expect(collection.findOne('e').title).to.equal('server');
+    });
+    it('rolls back the writes of an unsent method, that timed out', function (done) {
+      const method = name();
+      collection._collection.upsert({ _id: 'f', title: 'server' });
+      methods({
+        [method]() {
+          collection._collection.upsert({ _id: 'f', title: 'local' });
+        },
+      });
+      Data.ddp.cancelMethod = () => true;
+
+      apply(method, [], { timeout: 10 }, (err) => {
+        expect(err.error).to.equal('timeout');
+        expect(collection.findOne({ _id: 'f' }).title).to.equal('server');
+        done();
+      });
+      expect(collection.findOne({ _id: 'f' }).title).to.equal('local');
+    });
+    it('rolls back the writes of a sent method, that has been aborted', function () {
+      const method = name();
+      collection._collection.upsert({ _id: 'g', title: 'server' });
+      methods({
+        [method]() {
+          collection._collection.upsert({ _id: 'g', title: 'local' });
+        },
+      });
+      // the method has been sent already
+      Data.ddp.cancelMethod = () => false;
+      const controller = new AbortController();
+
+      call(method, controller.signal);
+      bufferServerMessage({
+        msg: 'changed',
+        collection: collection._name,
+        id: 'g',
+        fields: { title: 'changed' },
+      });
+      expect(collection.findOne({ _id: 'g' }).title).to.equal('local');
+      controller.abort();
+      expect(collection.findOne({ _id: 'g' }).title).to.equal('changed');
+    });
+    it('tracks the writes of a stub, that throws', function () {
+      const method = name();
+      collection._collection.upsert({ _id: 'h', title: 'server' });
+      methods({
+        [method]() {
+          collection._collection.upsert({ _id: 'h', title: 'local' });
+          throw new Error('stub failed');
+        },
+      });
+      const error = console.error;
+      console.error = () => {};
+      try {
+        call(method);
+      } finally {
+        console.error = error;
+      }
+      expect(collection._collection).not.to.have.own.property('upsert');
+      expect(collection.findOne({ _id: 'h' }).title).to.equal('local');
+      methodDataUpdated(sent[0].id);
+      expect(collection.findOne({ _id: 'h' }).title).to.equal('server');
+    });
+    it('only simulates methods called from within a stub', function () {
+      const outer = name();
+      const inner = name();
+      let innerResult;
+      methods({
+        [outer]() {
+          call(inner, (err, res) => (innerResult = res));
+        },
+        [inner]() {
+          return 'simulated';
+        },
+      });
+
+      call(outer);
+      expect(sent.map((m) => m.name)).to.deep.equal([outer]);
+      expect(innerResult).to.equal('simulated');
+    });
+    it('sends the method even if the stub throws', function () {
+      const method = name();
+      methods({
+        [method]() {
+          throw new Error('stub failed');
+        },
+      });
+      const error = console.error;
+      console.error = () => {};
+      try {
+        call(method);
+      } finally {
+        console.error = error;
+      }
+      expect(sent[0].name).to.equal(method);
+    });
+  });
+
+  describe('randomSeed', function () {
+    it('sends the seed, the stub used to generate ids', function () {
+      const method = name();
+      let insertedId;
+      methods({
+        [method]() {
+          insertedId = this.randomStream('/collection/foo').id();
+        },
+      });
+
+      call(method);
+      const { randomSeed } = sent[0].options;
+      expect(randomSeed).to.have.length(20);
+      const server = new RandomStream(randomSeed);
+      expect(server.sequence('/collection/foo').id()).to.equal(insertedId);
+    });
+    it('sends no seed, if the stub did not use it', function () {
+      const method = name();
+      methods({ [method]() {} });
+      call(method);
+      expect(sent[0].options.randomSeed).to.equal(undefined);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import EJSON from 'ejson';
+import Data from '../../src/Data';
+import { Collection } from '../../src/Collection';
+import {
+  loadPersistedCollections,
+  savePersistedCollections,
+} from '../../src/PersistentCollections';
+
+describe('PersistentCollections', function () {
+  let originalOptions;
+  let storage;
+
+  const key = (name) => `Meteor.collection.${name}`;
+  const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeEach(function () {
+    originalOptions = Data._options;
+    storage = {};
+    Data._options = {
+      KeyStorage: {
+        getItem: async (key) => storage[key] ?? null,
+        setItem: async (key, value) => {
+          storage[key] = value;
+        },
+        removeItem: async (key) => {
+          delete storage[key];
+        },
+      },
+    };
+  });
+
+  afterEach(async function () {
+    await savePersistedCollections();
+    Data._options = originalOptions;
+  });
+
+  it('rehydrates the documents from the storage', async function () {
+    storage[key('persisted-rehydrate')] = EJSON.stringify([
+      { _id: 'a', title: 'offline', createdAt: new Date(0) },
+    ]);
+    const collection = new Collection('persisted-rehydrate', { persist: true });
+    await loadPersistedCollections();
+
+    const doc = collection.findOne('a');
+    expect(doc.title).to.equal('offline');
+    expect(doc.createdAt).to.be.instanceOf(Date);
+  });
+
+  it('prefers a custom storage adapter', async function () {
+    const custom = {
+      getItem: async () => EJSON.stringify([{ _id: 'c', title: 'custom' }]),
+      setItem: async () => {},
+      removeItem: async () => {},
+    };
+    const collection = new Collection('persisted-custom', {
+      persist: { storage: custom },
+    });
+    await loadPersistedCollections();
+
+    expect(collection.findOne('c').title).to.equal('custom');
+  });
+
+  it('writes the documents, once they changed', async function () {
+    const collection = new Collection('persisted-save', { persist: true });
+    await loadPersistedCollections();
+
+    collection._collection.upsert({ _id: 'b', title: 'saved' });
+    await wait(150);
+
+    expect(EJSON.parse(storage[key('persisted-save')])).to.deep.equal([
+      { _id: 'b', title: 'saved' },
+    ]);
+  });
+
+  it('does not persist local collections', function () {
+    expect(() => new Collection(null, { persist: true })).to.throw(
+      'Only named collections of the default connection can be persisted'
+    );
+  });
+});
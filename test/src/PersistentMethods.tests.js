@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import Data from '../../src/Data';
+import { apply } from '../../src/Call';
+import {
+  getPersistedMethods,
+  loadPersistedMethods,
+  replayPersistedMethods,
+} from '../../src/PersistentMethods';
+
+describe('PersistentMethods', function () {
+  let originalDdp;
+  let originalOptions;
+  let sent;
+  let cancelled;
+  let storage;
+
+  const connectionLost = { error: 'connection-lost' };
+  const respond = (id, error, result) => {
+    const entry = Data.calls.find((c) => c.id === id);
+    Data.calls.splice(Data.calls.indexOf(entry), 1);
+    entry.callback?.(error, result);
+  };
+  const stored = () =>
+    storage['Meteor.persistedMethods']
+      ? JSON.parse(storage['Meteor.persistedMethods'])
+      : [];
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(function () {
+    originalDdp = Data.ddp;
+    originalOptions = Data._options;
+    sent = [];
+    cancelled = [];
+    storage = {};
+    Data.ddp = {
+      method: (name, params) => {
+        const id = String(sent.length);
+        sent.push({ id, name, params });
+        return id;
+      },
+      cancelMethod: (id) => cancelled.push(id),
+    };
+    Data._options = {
+      persistMethods: true,
+      KeyStorage: {
+        getItem: async (key) => storage[key] ?? null,
+        setItem: async (key, value) => {
+          storage[key] = value;
+        },
+        removeItem: async (key) => {
+          delete storage[key];
+        },
+      },
+    };
+  });
+
+  afterEach(async function () {
+    // settle everything, that is left
+    while (Data.calls.length) respond(Data.calls[0].id);
+    await tick();
+    Data.ddp = originalDdp;
+    Data._options = originalOptions;
+  });
+
+  it('saves calls with the persist option until their result arrives', async function () {
+    apply('foo', [1], { persist: true });
+    await tick();
+    expect(stored().map((e) => e.name)).to.deep.equal(['foo']);
+
+    respond('0', undefined, 'ok');
+    await tick();
+    expect(stored()).to.deep.equal([]);
+  });
+  it('ignores calls without the persist option', async function () {
+    apply('foo', [1]);
+    await tick();
+    expect(stored()).to.deep.equal([]);
+  });
+  it('ignores the persist option, unless enabled on connect', async function () {
+    Data._options.persistMethods = false;
+    apply('foo', [1], { persist: true });
+    await tick();
+    expect(stored()).to.deep.equal([]);
+  });
+  it('keeps the entry if the connection is lost and replays it', async function () {
+    apply('foo', [1], { persist: true });
+    respond('0', connectionLost);
+    expect(cancelled).to.deep.equal(['0']);
+    expect(getPersistedMethods().map((e) => e.name)).to.deep.equal(['foo']);
+
+    await replayPersistedMethods();
+    expect(sent.map((m) => m.name)).to.deep.equal(['foo', 'foo']);
+    expect(sent[1].params).to.deep.equal([1]);
+    expect(getPersistedMethods()).to.deep.equal([]);
+
+    respond('1', undefined, 'ok');
+    await tick();
+    expect(stored()).to.deep.equal([]);
+  });
+  it('dedupes entries by id', async function () {
+    apply('foo', [1], { persist: true, persistId: 'same' });
+    respond('0', connectionLost);
+    apply('foo', [2], { persist: true, persistId: 'same' });
+    respond('1', connectionLost);
+    await tick();
+    expect(stored().length).to.equal(1);
+    expect(stored()[0].args).to.deep.equal([2]);
+    await replayPersistedMethods();
+    expect(sent.length).to.equal(3);
+  });
+  it('lets the resolve hook modify or drop entries', async function () {
+    apply('keep', [1], { persist: true });
+    respond('0', connectionLost);
+    apply('drop', [1], { persist: true });
+    respond('1', connectionLost);
+
+    Data._options.resolvePersistedMethod = async (entry) =>
+      entry.name === 'drop' ? null : { ...entry, args: [42] };
+    await replayPersistedMethods();
+    expect(sent.slice(2)).to.deep.equal([
+      { id: '2', name: 'keep', params: [42] },
+    ]);
+    await tick();
+    expect(stored().map((e) => e.name)).to.deep.equal(['keep']);
+  });
+  it('loads entries from the storage', async function () {
+    storage['Meteor.persistedMethods'] = JSON.stringify([
+      { id: 'stored', name: 'bar', args: [], createdAt: 0 },
+    ]);
+    await loadPersistedMethods();
+    expect(getPersistedMethods().map((e) => e.id)).to.deep.equal(['stored']);
+    await replayPersistedMethods();
+    expect(sent.map((m) => m.name)).to.deep.equal(['bar']);
+  });
+});
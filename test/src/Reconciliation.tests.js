@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import Minimongo from '@meteorrn/minimongo';
+import Reconciliation from '../../src/Reconciliation';
+import { applyAdded } from '../../src/Collection';
+
+describe('Reconciliation', function () {
+  let db;
+
+  const ids = (name) => db[name].find({}).map((doc) => doc._id);
+
+  beforeEach(() => {
+    db = new Minimongo();
+    db.debug = false;
+    db.addCollection('tasks');
+    applyAdded('tasks', 'a', { title: 'a' }, db);
+    applyAdded('tasks', 'b', { title: 'b' }, db);
+  });
+
+  it('keeps the documents, until it finishes', () => {
+    const reconciliation = new Reconciliation(db);
+    reconciliation.start();
+    expect(
+      reconciliation.buffer({
+        msg: 'added',
+        collection: 'tasks',
+        id: 'a',
+        fields: { title: 'changed' },
+      })
+    ).to.equal(true);
+    expect(db.tasks.findOne({ _id: 'a' }).title).to.equal('a');
+    expect(ids('tasks')).to.deep.equal(['a', 'b']);
+
+    reconciliation.finish();
+    expect(reconciliation.active).to.equal(false);
+    expect(db.tasks.findOne({ _id: 'a' }).title).to.equal('changed');
+    expect(ids('tasks')).to.deep.equal(['a']);
+  });
+
+  it('applies changed and removed messages to the buffer', () => {
+    const reconciliation = new Reconciliation(db);
+    reconciliation.start();
+    [
+      { msg: 'added', collection: 'tasks', id: 'c', fields: { title: 'c' } },
+      {
+        msg: 'changed',
+        collection: 'tasks',
+        id: 'c',
+        fields: { done: true },
+        cleared: ['title'],
+      },
+      { msg: 'added', collection: 'tasks', id: 'd', fields: {} },
+      { msg: 'removed', collection: 'tasks', id: 'd' },
+    ].forEach((message) => reconciliation.buffer(message));
+    reconciliation.finish();
+
+    const { _version, ...doc } = db.tasks.findOne({ _id: 'c' });
+    expect(doc).to.deep.equal({ _id: 'c', done: true });
+    expect(ids('tasks')).to.deep.equal(['c']);
+  });
+
+  it('does not buffer, if there are no documents to keep', () => {
+    const reconciliation = new Reconciliation(db, {
+      isServerCollection: (name) => name !== 'tasks',
+    });
+    reconciliation.start();
+    expect(reconciliation.active).to.equal(false);
+    expect(
+      reconciliation.buffer({ msg: 'removed', collection: 'tasks', id: 'a' })
+    ).to.equal(false);
+  });
+
+  it('passes the resulting messages to the redirect first', () => {
+    const redirected = [];
+    const reconciliation = new Reconciliation(db, {
+      redirect: (message) => {
+        if (message.id !== 'b') return false;
+        redirected.push(message.msg);
+        return true;
+      },
+    });
+    reconciliation.start();
+    reconciliation.finish();
+    expect(redirected).to.deep.equal(['removed']);
+    expect(ids('tasks')).to.deep.equal(['b']);
+  });
+});
@@ -42,7 +42,7 @@ export const awaitDisconnected = async () => {
   Meteor.disconnect();
   await new Promise((resolve) => {
     let timer = setInterval(() => {
-      if (Meteor.status().status === 'disconnected') {
+      if (Meteor.status().status === 'offline') {
         clearInterval(timer);
         resolve();
       }